@@ -0,0 +1,277 @@
+import { FrequencySketch } from '../utils/frequency-sketch';
+
+/**
+ * Eviction policies supported by MemoryAdapter
+ * - lru: evict the least recently used key
+ * - lfu: evict the least frequently used key (LRU among ties)
+ * - tinylfu: W-TinyLFU - small LRU window plus a frequency-gated main cache,
+ *   so one-off scans can't flush frequently used keys
+ */
+export type EvictionPolicyName = 'lru' | 'lfu' | 'tinylfu';
+
+/**
+ * Tracks key usage and picks which key to evict
+ * The adapter owns the entries; the policy only orders keys
+ */
+export interface IEvictionPolicy {
+  /**
+   * Record a read or update of a tracked key
+   */
+  onAccess(key: string): void;
+
+  /**
+   * Start tracking a new key
+   */
+  onInsert(key: string): void;
+
+  /**
+   * Stop tracking a removed key
+   */
+  onRemove(key: string): void;
+
+  /**
+   * Key to evict next, or undefined if nothing is tracked
+   */
+  victim(): string | undefined;
+
+  /**
+   * Stop tracking all keys
+   */
+  clear(): void;
+}
+
+/**
+ * Create an eviction policy
+ * @param capacity - Maximum number of entries (sizes the tinylfu segments)
+ */
+export function createEvictionPolicy(name: EvictionPolicyName, capacity: number): IEvictionPolicy {
+  switch (name) {
+    case 'lru':
+      return new LruPolicy();
+    case 'lfu':
+      return new LfuPolicy();
+    case 'tinylfu':
+      return new TinyLfuPolicy(capacity);
+    default:
+      throw new Error(`Unsupported eviction policy: ${name}`);
+  }
+}
+
+/**
+ * Least recently used - a Set in recency order (oldest first)
+ */
+export class LruPolicy implements IEvictionPolicy {
+  private readonly order: Set<string> = new Set();
+
+  get size(): number {
+    return this.order.size;
+  }
+
+  has(key: string): boolean {
+    return this.order.has(key);
+  }
+
+  onAccess(key: string): void {
+    if (this.order.delete(key)) {
+      this.order.add(key);
+    }
+  }
+
+  onInsert(key: string): void {
+    this.order.delete(key);
+    this.order.add(key);
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  victim(): string | undefined {
+    return this.order.values().next().value;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+}
+
+/**
+ * Least frequently used with O(1) updates
+ * Keys are bucketed by access count; each bucket is in recency order
+ */
+export class LfuPolicy implements IEvictionPolicy {
+  private readonly counts: Map<string, number> = new Map();
+  private readonly buckets: Map<number, Set<string>> = new Map();
+  private minCount: number = 0;
+
+  onAccess(key: string): void {
+    const count = this.counts.get(key);
+    if (count === undefined) {
+      return;
+    }
+
+    this.unlink(key, count);
+    this.link(key, count + 1);
+
+    if (count === this.minCount && !this.buckets.has(count)) {
+      this.minCount = count + 1;
+    }
+  }
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.link(key, 1);
+    this.minCount = 1;
+  }
+
+  onRemove(key: string): void {
+    const count = this.counts.get(key);
+    if (count !== undefined) {
+      this.unlink(key, count);
+    }
+  }
+
+  victim(): string | undefined {
+    if (this.counts.size === 0) {
+      return undefined;
+    }
+
+    // minCount may point at a bucket emptied by onRemove
+    while (!this.buckets.has(this.minCount)) {
+      this.minCount++;
+    }
+    return this.buckets.get(this.minCount)!.values().next().value;
+  }
+
+  clear(): void {
+    this.counts.clear();
+    this.buckets.clear();
+    this.minCount = 0;
+  }
+
+  private link(key: string, count: number): void {
+    this.counts.set(key, count);
+    let bucket = this.buckets.get(count);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(count, bucket);
+    }
+    bucket.add(key);
+  }
+
+  private unlink(key: string, count: number): void {
+    this.counts.delete(key);
+    const bucket = this.buckets.get(count)!;
+    bucket.delete(key);
+    if (bucket.size === 0) {
+      this.buckets.delete(count);
+    }
+  }
+}
+
+/**
+ * Share of capacity given to the admission window
+ */
+const WINDOW_RATIO = 0.01;
+
+/**
+ * Share of the main cache given to the protected segment
+ */
+const PROTECTED_RATIO = 0.8;
+
+/**
+ * W-TinyLFU (as used by Caffeine)
+ *
+ * New keys enter a small LRU window. Keys leaving the window only enter the
+ * main cache if the frequency sketch estimates them to be used more often
+ * than the main cache's eviction victim. The main cache is a segmented LRU:
+ * keys hit while on probation are promoted to the protected segment
+ */
+export class TinyLfuPolicy implements IEvictionPolicy {
+  private readonly sketch: FrequencySketch;
+  private readonly window: LruPolicy = new LruPolicy();
+  private readonly probation: LruPolicy = new LruPolicy();
+  private readonly protectedSegment: LruPolicy = new LruPolicy();
+  private readonly windowMax: number;
+  private readonly mainMax: number;
+  private readonly protectedMax: number;
+
+  constructor(capacity: number) {
+    this.sketch = new FrequencySketch(capacity);
+    this.windowMax = Math.max(1, Math.floor(capacity * WINDOW_RATIO));
+    this.mainMax = Math.max(1, capacity - this.windowMax);
+    this.protectedMax = Math.max(1, Math.floor(this.mainMax * PROTECTED_RATIO));
+  }
+
+  onAccess(key: string): void {
+    this.sketch.increment(key);
+
+    if (this.window.has(key)) {
+      this.window.onAccess(key);
+    } else if (this.probation.has(key)) {
+      this.probation.onRemove(key);
+      this.protectedSegment.onInsert(key);
+      this.demoteProtected();
+    } else {
+      this.protectedSegment.onAccess(key);
+    }
+  }
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.sketch.increment(key);
+    this.window.onInsert(key);
+
+    // Admit freely while the main cache has room
+    while (this.window.size > this.windowMax && this.mainSize < this.mainMax) {
+      const candidate = this.window.victim()!;
+      this.window.onRemove(candidate);
+      this.probation.onInsert(candidate);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.window.onRemove(key);
+    this.probation.onRemove(key);
+    this.protectedSegment.onRemove(key);
+  }
+
+  victim(): string | undefined {
+    const mainVictim = this.probation.victim() ?? this.protectedSegment.victim();
+
+    if (this.window.size <= this.windowMax || mainVictim === undefined) {
+      return mainVictim ?? this.window.victim();
+    }
+
+    // Window over its share: its oldest key competes with the main victim
+    const candidate = this.window.victim()!;
+    if (this.sketch.frequency(candidate) <= this.sketch.frequency(mainVictim)) {
+      return candidate;
+    }
+
+    this.window.onRemove(candidate);
+    this.probation.onInsert(candidate);
+    return mainVictim;
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protectedSegment.clear();
+  }
+
+  private get mainSize(): number {
+    return this.probation.size + this.protectedSegment.size;
+  }
+
+  /**
+   * Move overflow from protected back to probation
+   */
+  private demoteProtected(): void {
+    while (this.protectedSegment.size > this.protectedMax) {
+      const key = this.protectedSegment.victim()!;
+      this.protectedSegment.onRemove(key);
+      this.probation.onInsert(key);
+    }
+  }
+}
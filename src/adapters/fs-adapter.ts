@@ -0,0 +1,729 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs, constants as fsConstants } from 'fs';
+import { dirname, join } from 'path';
+import {
+  ICacheAdapter,
+  AdapterEvent,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ISerializer,
+  ScanOptions,
+} from '../core/interfaces';
+import { JsonSerializer } from '../serializers/json-serializer';
+import { globToRegExp } from '../utils/glob';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { batchKeys } from '../utils/scan';
+import { LruPolicy } from './eviction-policy';
+
+/**
+ * Default seconds between sweeps of expired entries
+ */
+const DEFAULT_SWEEP_INTERVAL = 60;
+
+/**
+ * Bytes before each entry's header, holding the header length
+ */
+const HEADER_LENGTH_BYTES = 4;
+
+const TEMP_SUFFIX = '.tmp';
+
+export interface FsAdapterOptions {
+  directory: string; // cache root; entries are kept under <directory>/entries
+  maxSize?: number; // total bytes on disk - least recently used entries are evicted beyond it
+  ttl?: number; // default TTL in seconds for set() without a TTL
+  sweepInterval?: number; // seconds between sweeps of expired entries, default 60 (0 = never)
+  serializer?: ISerializer; // encodes stored values, default type-preserving JSON
+  logger?: CacheLogger;
+}
+
+/**
+ * Index record for an entry file
+ */
+interface IndexEntry {
+  expiresAt: number; // 0 = no expiry
+  size: number; // bytes on disk
+}
+
+/**
+ * Header stored at the start of each entry file
+ */
+interface EntryHeader {
+  key: string;
+  expiresAt: number;
+}
+
+interface LockEntry {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Disk cache adapter storing each entry in its own file
+ * Files live in a sharded tree (entries/ab/cd/<sha256 of key>) and are
+ * written atomically via rename. A compact in-memory index of key, size and
+ * expiry is rebuilt from the file headers on startup, so lookups, keys() and
+ * the disk budget never touch files that aren't needed. Meant for large
+ * values behind a MemoryAdapter L1; the index is per process, so each cache
+ * directory should be used by a single process
+ */
+export class FsAdapter implements ICacheAdapter {
+  private readonly entriesDir: string;
+  private readonly tagsDir: string;
+  private readonly maxSize?: number;
+  private readonly defaultTTL?: number;
+  private readonly sweepInterval: number;
+  private readonly serializer: ISerializer;
+  private readonly logger: CacheLogger;
+  private readonly index: Map<string, IndexEntry> = new Map();
+  private readonly policy: LruPolicy = new LruPolicy();
+  private readonly tags: Map<string, Set<string>> = new Map();
+  private readonly locks: Map<string, LockEntry> = new Map();
+  private readonly listeners: Set<(event: AdapterEvent) => void> = new Set();
+  private readonly ready: Promise<void>;
+  private evicting: Promise<void> | null = null;
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+  private bytes: number = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly startTime: number = Date.now();
+
+  constructor(options: FsAdapterOptions) {
+    if (!options.directory) {
+      throw new Error('FsAdapter requires a "directory" option');
+    }
+
+    this.entriesDir = join(options.directory, 'entries');
+    this.tagsDir = join(options.directory, 'tags');
+    this.maxSize = options.maxSize;
+    this.defaultTTL = options.ttl;
+    this.sweepInterval = options.sweepInterval ?? DEFAULT_SWEEP_INTERVAL;
+    this.serializer = options.serializer ?? new JsonSerializer();
+    this.logger = options.logger ?? defaultLogger;
+
+    this.ready = this.load();
+    // Surfaced by the first operation
+    this.ready.catch(() => undefined);
+    this.startSweep();
+  }
+
+  /**
+   * Wait for the index to load and restart the sweep timer after close()
+   */
+  async connect(): Promise<void> {
+    await this.whenReady();
+    this.startSweep();
+  }
+
+  /**
+   * Stop the sweep timer
+   * Entries stay on disk, so the adapter can still be used
+   */
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.whenReady();
+
+    try {
+      await fs.access(this.entriesDir, fsConstants.R_OK | fsConstants.W_OK);
+    } catch (error) {
+      throw new CacheError(
+        'Cache directory is not accessible',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  onEvent(listener: (event: AdapterEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.whenReady();
+
+    const entry = this.index.get(key);
+    if (!entry || isExpired(entry)) {
+      if (entry) {
+        await this.expire(key);
+      }
+      this.misses++;
+      return null;
+    }
+
+    let data: Buffer;
+    try {
+      data = await fs.readFile(this.entryPath(key));
+    } catch (error) {
+      if (isNotFound(error)) {
+        // Removed outside the adapter
+        await this.remove(key);
+        this.misses++;
+        return null;
+      }
+      throw toCacheError('Failed to get key', error);
+    }
+
+    const decoded = decodeEntry(data);
+    if (!decoded) {
+      this.logger.warn('Removing corrupt disk cache entry', { key });
+      await this.remove(key);
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    this.policy.onAccess(key);
+    return this.serializer.deserialize<T>(decoded.payload);
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    await this.whenReady();
+
+    const seconds = ttl || this.defaultTTL;
+    const expiresAt = seconds ? Date.now() + seconds * 1000 : 0;
+    const data = encodeEntry({ key, expiresAt }, this.serializer.serialize(value));
+
+    if (this.maxSize && data.length > this.maxSize) {
+      // Don't keep serving the previous value
+      await this.remove(key);
+      throw new CacheError(
+        `Value is ${data.length} bytes, exceeding maxSize of ${this.maxSize}`,
+        CacheErrorCode.VALUE_TOO_LARGE,
+      );
+    }
+
+    try {
+      await writeAtomic(this.entryPath(key), data);
+    } catch (error) {
+      throw toCacheError('Failed to set key', error);
+    }
+
+    const existing = this.index.get(key);
+    this.index.set(key, { expiresAt, size: data.length });
+    this.bytes += data.length - (existing?.size ?? 0);
+
+    if (existing) {
+      this.policy.onAccess(key);
+    } else {
+      this.policy.onInsert(key);
+    }
+
+    await this.enforceMaxSize();
+  }
+
+  async delete(key: string | string[]): Promise<void> {
+    await this.whenReady();
+
+    const keys = Array.isArray(key) ? key : [key];
+    await Promise.all(keys.map((k) => this.remove(k)));
+  }
+
+  async clear(pattern?: string): Promise<void> {
+    await this.whenReady();
+
+    if (pattern) {
+      for await (const batch of this.scan(pattern)) {
+        await this.delete(batch);
+      }
+      return;
+    }
+
+    this.index.clear();
+    this.policy.clear();
+    this.tags.clear();
+    this.bytes = 0;
+
+    try {
+      await Promise.all([
+        fs.rm(this.entriesDir, { recursive: true, force: true }),
+        fs.rm(this.tagsDir, { recursive: true, force: true }),
+      ]);
+      await Promise.all([
+        fs.mkdir(this.entriesDir, { recursive: true }),
+        fs.mkdir(this.tagsDir, { recursive: true }),
+      ]);
+    } catch (error) {
+      throw toCacheError('Failed to clear cache', error);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.whenReady();
+
+    const entry = this.index.get(key);
+    return !!entry && !isExpired(entry);
+  }
+
+  async mget<T>(keys: string[]): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+
+    for (const key of keys) {
+      const value = await this.get<T>(key);
+      if (value !== null) {
+        results.set(key, value);
+      }
+    }
+
+    return results;
+  }
+
+  async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    entries.forEach((value, key) => {
+      promises.push(this.set(key, value, ttl));
+    });
+
+    await Promise.all(promises);
+  }
+
+  async keys(pattern?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const batch of this.scan(pattern)) {
+      keys.push(...batch);
+    }
+    return keys;
+  }
+
+  /**
+   * Scans the in-memory index - no files are read
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    await this.whenReady();
+
+    const regex = pattern ? globToRegExp(pattern) : null;
+    const index = this.index;
+
+    function* matching(): Iterable<string> {
+      for (const [key, entry] of index) {
+        if (!isExpired(entry) && (!regex || regex.test(key))) {
+          yield key;
+        }
+      }
+    }
+
+    yield* batchKeys(matching(), options.batchSize);
+  }
+
+  /**
+   * keys and memory include expired entries until the next sweep; memory is bytes on disk
+   */
+  async stats(): Promise<CacheStats> {
+    await this.whenReady();
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      keys: this.index.size,
+      memory: this.bytes,
+      uptime: Date.now() - this.startTime,
+      evictions: this.evictions,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const existing = this.locks.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return null;
+    }
+
+    const token = randomUUID();
+    this.locks.set(key, { token, expiresAt: Date.now() + ttl * 1000 });
+    return token;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
+  }
+
+  /**
+   * Tags are saved to disk (one file per tag) so they survive restarts
+   */
+  async tagKey(key: string, tags: string[], _ttl?: number): Promise<void> {
+    await this.whenReady();
+
+    const changed: string[] = [];
+    for (const tag of tags) {
+      let keys = this.tags.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tags.set(tag, keys);
+      }
+      if (!keys.has(key)) {
+        keys.add(key);
+        changed.push(tag);
+      }
+    }
+
+    try {
+      await Promise.all(changed.map((tag) => this.saveTag(tag)));
+    } catch (error) {
+      throw toCacheError('Failed to tag key', error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    await this.whenReady();
+
+    const keys = new Set<string>();
+    for (const tag of tags) {
+      this.tags.get(tag)?.forEach((key) => keys.add(key));
+      this.tags.delete(tag);
+    }
+
+    try {
+      await Promise.all(tags.map((tag) => this.saveTag(tag)));
+      // Only report keys that were still cached
+      const removed = await Promise.all(Array.from(keys, (key) => this.remove(key)));
+      return Array.from(keys).filter((_key, i) => removed[i]);
+    } catch (error) {
+      throw toCacheError('Failed to invalidate tags', error);
+    }
+  }
+
+  /**
+   * Delete expired entries and locks, and drop deleted keys from tags
+   * @returns Number of expired entries deleted
+   */
+  async sweep(): Promise<number> {
+    await this.whenReady();
+
+    const now = Date.now();
+    const expired: string[] = [];
+    for (const [key, entry] of this.index) {
+      if (isExpired(entry, now)) {
+        expired.push(key);
+      }
+    }
+    await Promise.all(expired.map((key) => this.expire(key)));
+
+    for (const [key, lock] of this.locks) {
+      if (lock.expiresAt < now) {
+        this.locks.delete(key);
+      }
+    }
+
+    const pruned: string[] = [];
+    for (const [tag, keys] of this.tags) {
+      const size = keys.size;
+      keys.forEach((key) => {
+        if (!this.index.has(key)) {
+          keys.delete(key);
+        }
+      });
+      if (keys.size === 0) {
+        this.tags.delete(tag);
+      }
+      if (keys.size !== size) {
+        pruned.push(tag);
+      }
+    }
+
+    try {
+      await Promise.all(pruned.map((tag) => this.saveTag(tag)));
+    } catch (error) {
+      throw toCacheError('Failed to save pruned tags', error);
+    }
+
+    return expired.length;
+  }
+
+  private async whenReady(): Promise<void> {
+    try {
+      await this.ready;
+    } catch (error) {
+      throw toCacheError('Failed to load cache directory', error);
+    }
+  }
+
+  /**
+   * Rebuild the index from entry file headers, oldest first so LRU order
+   * survives restarts, and reload tags
+   * Expired entries, corrupt files and temp files left by interrupted writes are deleted
+   */
+  private async load(): Promise<void> {
+    await fs.mkdir(this.entriesDir, { recursive: true });
+    await fs.mkdir(this.tagsDir, { recursive: true });
+
+    const now = Date.now();
+    const found: (EntryHeader & { size: number; mtime: number })[] = [];
+
+    for (const file of await listFiles(this.entriesDir, 2)) {
+      const header = file.endsWith(TEMP_SUFFIX) ? null : await readEntryHeader(file);
+      if (!header || isExpired(header, now)) {
+        await removeFile(file);
+        continue;
+      }
+      found.push(header);
+    }
+
+    found.sort((a, b) => a.mtime - b.mtime);
+    for (const { key, expiresAt, size } of found) {
+      this.index.set(key, { expiresAt, size });
+      this.policy.onInsert(key);
+      this.bytes += size;
+    }
+
+    for (const file of await listFiles(this.tagsDir, 0)) {
+      if (file.endsWith(TEMP_SUFFIX)) {
+        await removeFile(file);
+        continue;
+      }
+
+      let tag: string;
+      let keys: string[];
+      try {
+        ({ tag, keys } = JSON.parse(await fs.readFile(file, 'utf8')));
+        if (typeof tag !== 'string' || !Array.isArray(keys)) {
+          throw new Error('Tag file is missing its tag or keys');
+        }
+      } catch (error) {
+        this.logger.warn('Removing corrupt disk cache tag file', { file, error });
+        await removeFile(file);
+        continue;
+      }
+      const cached = keys.filter((key) => this.index.has(key));
+      if (cached.length > 0) {
+        this.tags.set(tag, new Set(cached));
+      }
+    }
+
+    // The budget may have shrunk since the last run
+    await this.enforceMaxSize();
+  }
+
+  /**
+   * Evict least recently used entries until the total size is within maxSize
+   * Runs one pass at a time - concurrent writes wait for it and then re-check
+   * the budget, so no victim is evicted or counted twice
+   */
+  private async enforceMaxSize(): Promise<void> {
+    while (this.evicting) {
+      // The write that started the pass reports its failure
+      await this.evicting.catch(() => undefined);
+    }
+    if (!this.maxSize || this.bytes <= this.maxSize) {
+      return;
+    }
+
+    this.evicting = this.evictOverflow();
+    try {
+      await this.evicting;
+    } finally {
+      this.evicting = null;
+    }
+  }
+
+  private async evictOverflow(): Promise<void> {
+    while (this.maxSize && this.bytes > this.maxSize) {
+      const victim = this.policy.victim();
+      if (victim === undefined) {
+        break;
+      }
+      await this.remove(victim);
+      this.evictions++;
+      this.notify({ type: 'evict', key: victim });
+    }
+  }
+
+  /**
+   * Remove an entry from the index and delete its file
+   * @returns Whether the key was cached
+   */
+  private async remove(key: string): Promise<boolean> {
+    const entry = this.index.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    // Update the index first so concurrent reads see the key as gone
+    this.index.delete(key);
+    this.policy.onRemove(key);
+    this.bytes -= entry.size;
+
+    try {
+      await removeFile(this.entryPath(key));
+    } catch (error) {
+      throw toCacheError('Failed to delete key', error);
+    }
+    return true;
+  }
+
+  /**
+   * Remove an entry past its TTL
+   */
+  private async expire(key: string): Promise<void> {
+    if (await this.remove(key)) {
+      this.notify({ type: 'expire', key });
+    }
+  }
+
+  /**
+   * Write a tag's keys to its file, or delete the file once it has none
+   */
+  private async saveTag(tag: string): Promise<void> {
+    const keys = this.tags.get(tag);
+    const path = join(this.tagsDir, hash(tag));
+
+    if (!keys || keys.size === 0) {
+      await removeFile(path);
+      return;
+    }
+    await writeAtomic(path, JSON.stringify({ tag, keys: Array.from(keys) }));
+  }
+
+  private entryPath(key: string): string {
+    const name = hash(key);
+    return join(this.entriesDir, name.slice(0, 2), name.slice(2, 4), name);
+  }
+
+  private startSweep(): void {
+    if (this.sweepTimer || this.sweepInterval <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) => {
+        this.logger.error('Failed to sweep disk cache', { error });
+      });
+    }, this.sweepInterval * 1000);
+    // Don't keep the process alive just for sweeping
+    this.sweepTimer.unref();
+  }
+
+  private notify(event: AdapterEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function isExpired(entry: { expiresAt: number }, now: number = Date.now()): boolean {
+  return entry.expiresAt !== 0 && entry.expiresAt <= now;
+}
+
+/**
+ * Entry file: header length (UInt32BE), JSON header, serialized value
+ */
+function encodeEntry(header: EntryHeader, payload: string | Buffer): Buffer {
+  const headerBytes = Buffer.from(JSON.stringify(header));
+  const length = Buffer.alloc(HEADER_LENGTH_BYTES);
+  length.writeUInt32BE(headerBytes.length);
+  return Buffer.concat([length, headerBytes, Buffer.from(payload)]);
+}
+
+/**
+ * @returns null if the entry is corrupt
+ */
+function decodeEntry(data: Buffer): { header: EntryHeader; payload: Buffer } | null {
+  try {
+    const end = HEADER_LENGTH_BYTES + data.readUInt32BE(0);
+    return {
+      header: JSON.parse(data.subarray(HEADER_LENGTH_BYTES, end).toString()),
+      payload: data.subarray(end),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read only the header of an entry file
+ * @returns null if the file is missing or corrupt
+ */
+async function readEntryHeader(
+  path: string,
+): Promise<(EntryHeader & { size: number; mtime: number }) | null> {
+  let handle: fs.FileHandle | null = null;
+  try {
+    handle = await fs.open(path, 'r');
+    const { size, mtimeMs } = await handle.stat();
+
+    const length = Buffer.alloc(HEADER_LENGTH_BYTES);
+    await handle.read(length, 0, HEADER_LENGTH_BYTES, 0);
+    const headerBytes = Buffer.alloc(length.readUInt32BE(0));
+    await handle.read(headerBytes, 0, headerBytes.length, HEADER_LENGTH_BYTES);
+
+    const header: EntryHeader = JSON.parse(headerBytes.toString());
+    return { ...header, size, mtime: mtimeMs };
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Write to a temp file in the same directory, then rename over the target,
+ * so readers never see a partial file
+ */
+async function writeAtomic(path: string, data: string | Buffer): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true });
+
+  const temp = `${path}.${randomUUID()}${TEMP_SUFFIX}`;
+  try {
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, path);
+  } catch (error) {
+    await removeFile(temp).catch(() => undefined);
+    throw error;
+  }
+}
+
+async function removeFile(path: string): Promise<void> {
+  try {
+    await fs.unlink(path);
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Files in dir, descending depth levels of subdirectories
+ */
+async function listFiles(dir: string, depth: number): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, dirent.name);
+    if (dirent.isDirectory() && depth > 0) {
+      files.push(...(await listFiles(path, depth - 1)));
+    } else if (dirent.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Keep CacheErrors (e.g. serialization failures), wrap anything else as a connection error
+ */
+function toCacheError(message: string, error: unknown): CacheError {
+  return error instanceof CacheError
+    ? error
+    : new CacheError(message, CacheErrorCode.CONNECTION_ERROR, error as Error);
+}
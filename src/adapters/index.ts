@@ -1,3 +1,8 @@
 export * from './memory-adapter';
 export * from './keyv-adapter';
+export * from './redis-adapter';
+export * from './sqlite-adapter';
+export * from './fs-adapter';
+export * from './s3-adapter';
 export * from './multi-tier-adapter';
+export * from './eviction-policy';
@@ -1,5 +1,39 @@
+import { randomUUID } from 'crypto';
 import Keyv from 'keyv';
-import { ICacheAdapter, CacheStats, CacheError, CacheErrorCode } from '../core/interfaces';
+import {
+  ICacheAdapter,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ScanOptions,
+} from '../core/interfaces';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { globToRegExp } from '../utils/glob';
+import { batchKeys } from '../utils/scan';
+import { RELEASE_LOCK_SCRIPT, TAG_KEY_SCRIPT } from './redis-scripts';
+
+/**
+ * Key read by ping() on stores without a native ping
+ */
+const PING_KEY = '__ping__';
+
+/**
+ * Prefix for tag index keys
+ */
+const TAG_PREFIX = '__tag__:';
+
+/**
+ * Prefix for lock keys
+ */
+const LOCK_PREFIX = '__lock__:';
+
+/**
+ * Tag index stored through Keyv for stores without native sets
+ */
+interface TagIndex {
+  keys: string[];
+  expiresAt: number; // 0 = no expiry
+}
 
 export interface KeyvAdapterOptions {
   uri?: string;
@@ -8,6 +42,7 @@ export interface KeyvAdapterOptions {
   store?: any;
   serialize?: (value: any) => string;
   deserialize?: (value: string) => any;
+  logger?: CacheLogger;
   [key: string]: any;
 }
 
@@ -17,18 +52,22 @@ export interface KeyvAdapterOptions {
  */
 export class KeyvAdapter implements ICacheAdapter {
   private readonly keyv: Keyv;
+  private readonly logger: CacheLogger;
   private hits: number = 0;
   private misses: number = 0;
   private readonly startTime: number;
 
   constructor(options: KeyvAdapterOptions = {}) {
+    const { logger, ...keyvOptions } = options;
+    this.logger = logger ?? defaultLogger;
+
     try {
-      this.keyv = new Keyv(options);
+      this.keyv = new Keyv(keyvOptions);
       this.startTime = Date.now();
 
       // Handle Keyv errors
       this.keyv.on('error', (err) => {
-        console.error('Keyv connection error:', err);
+        this.logger.error('Keyv connection error', { error: err });
       });
     } catch (error) {
       throw new CacheError(
@@ -51,11 +90,7 @@ export class KeyvAdapter implements ICacheAdapter {
       this.hits++;
       return value as T;
     } catch (error) {
-      throw new CacheError(
-        `Failed to get key: ${key}`,
-        CacheErrorCode.CONNECTION_ERROR,
-        error as Error,
-      );
+      throw new CacheError('Failed to get key', CacheErrorCode.CONNECTION_ERROR, error as Error);
     }
   }
 
@@ -65,11 +100,7 @@ export class KeyvAdapter implements ICacheAdapter {
       const ttlMs = ttl ? ttl * 1000 : undefined;
       await this.keyv.set(key, value, ttlMs);
     } catch (error) {
-      throw new CacheError(
-        `Failed to set key: ${key}`,
-        CacheErrorCode.CONNECTION_ERROR,
-        error as Error,
-      );
+      throw new CacheError('Failed to set key', CacheErrorCode.CONNECTION_ERROR, error as Error);
     }
   }
 
@@ -92,15 +123,17 @@ export class KeyvAdapter implements ICacheAdapter {
   async clear(pattern?: string): Promise<void> {
     try {
       if (pattern) {
-        // Get all keys matching pattern and delete them
-        const keys = await this.keys(pattern);
-        if (keys.length > 0) {
-          await this.delete(keys);
+        // Delete matching keys batch by batch as the store is scanned
+        for await (const batch of this.scan(pattern)) {
+          await this.delete(batch);
         }
       } else {
         await this.keyv.clear();
       }
     } catch (error) {
+      if (error instanceof CacheError) {
+        throw error;
+      }
       throw new CacheError(
         'Failed to clear cache',
         CacheErrorCode.CONNECTION_ERROR,
@@ -114,11 +147,7 @@ export class KeyvAdapter implements ICacheAdapter {
       const value = await this.keyv.get(key);
       return value !== undefined;
     } catch (error) {
-      throw new CacheError(
-        `Failed to check key: ${key}`,
-        CacheErrorCode.CONNECTION_ERROR,
-        error as Error,
-      );
+      throw new CacheError('Failed to check key', CacheErrorCode.CONNECTION_ERROR, error as Error);
     }
   }
 
@@ -168,21 +197,33 @@ export class KeyvAdapter implements ICacheAdapter {
     }
   }
 
-  async keys(_pattern?: string): Promise<string[]> {
-    try {
-      // Keyv doesn't have a native keys() method
-      // This is a limitation - some stores may not support this
-      // For production, consider using Redis SCAN or similar
-      console.warn('keys() operation may not be efficient with all Keyv stores');
+  /**
+   * Enumerate keys with the store's iterator (Map, Redis, MongoDB, PostgreSQL,
+   * MySQL and SQLite stores), skipping expired entries and tag indexes
+   * @throws CacheError with NOT_SUPPORTED if the store can't enumerate keys
+   */
+  async keys(pattern?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const batch of this.scan(pattern)) {
+      keys.push(...batch);
+    }
+    return keys;
+  }
 
-      // Return empty array if not supported
-      return [];
+  /**
+   * Stream keys from the store's iterator in batches of at most batchSize
+   * @throws CacheError with NOT_SUPPORTED if the store can't enumerate keys
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const regex = pattern ? globToRegExp(pattern) : null;
+
+    try {
+      yield* batchKeys(this.iterateKeys(regex), options.batchSize);
     } catch (error) {
-      throw new CacheError(
-        'Failed to get keys',
-        CacheErrorCode.CONNECTION_ERROR,
-        error as Error,
-      );
+      if (error instanceof CacheError) {
+        throw error;
+      }
+      throw new CacheError('Failed to scan keys', CacheErrorCode.CONNECTION_ERROR, error as Error);
     }
   }
 
@@ -196,14 +237,239 @@ export class KeyvAdapter implements ICacheAdapter {
     };
   }
 
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Acquire lock with SET NX PX when backed by Redis
+   * Other stores fall back to a best-effort (non-atomic) check-and-set
+   */
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const lockKey = LOCK_PREFIX + key;
+    const token = randomUUID();
+    const ttlMs = ttl * 1000;
+
+    try {
+      const redis = this.getRedisClient();
+      if (redis) {
+        const result = await redis.set(this.prefixKey(lockKey), token, 'PX', ttlMs, 'NX');
+        return result === 'OK' ? token : null;
+      }
+
+      if ((await this.keyv.get(lockKey)) !== undefined) {
+        return null;
+      }
+      await this.keyv.set(lockKey, token, ttlMs);
+      return token;
+    } catch (error) {
+      throw new CacheError(
+        'Failed to acquire lock',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    const lockKey = LOCK_PREFIX + key;
+
+    try {
+      const redis = this.getRedisClient();
+      if (redis) {
+        await redis.eval(RELEASE_LOCK_SCRIPT, 1, this.prefixKey(lockKey), token);
+        return;
+      }
+
+      if ((await this.keyv.get(lockKey)) === token) {
+        await this.keyv.delete(lockKey);
+      }
+    } catch (error) {
+      throw new CacheError(
+        'Failed to release lock',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Record tags in Redis sets when backed by Redis
+   * Other stores keep a best-effort (non-atomic) key list per tag
+   */
+  async tagKey(key: string, tags: string[], ttl?: number): Promise<void> {
+    const ttlMs = ttl ? ttl * 1000 : 0;
+
+    try {
+      const redis = this.getRedisClient();
+      if (redis) {
+        const tagKeys = tags.map((tag) => this.prefixKey(TAG_PREFIX + tag));
+        await redis.eval(TAG_KEY_SCRIPT, tagKeys.length, ...tagKeys, key, ttlMs);
+        return;
+      }
+
+      const expiresAt = ttlMs ? Date.now() + ttlMs : 0;
+      await Promise.all(
+        tags.map(async (tag) => {
+          const index: TagIndex | undefined = await this.keyv.get(TAG_PREFIX + tag);
+          const keys = new Set(index?.keys);
+          keys.add(key);
+
+          // Keep the index alive as long as its longest-lived key
+          const indexExpiresAt =
+            index && (index.expiresAt === 0 || expiresAt === 0)
+              ? 0
+              : Math.max(index?.expiresAt ?? 0, expiresAt);
+          await this.keyv.set(
+            TAG_PREFIX + tag,
+            { keys: Array.from(keys), expiresAt: indexExpiresAt },
+            indexExpiresAt ? indexExpiresAt - Date.now() : undefined,
+          );
+        }),
+      );
+    } catch (error) {
+      throw new CacheError('Failed to tag key', CacheErrorCode.CONNECTION_ERROR, error as Error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    try {
+      const keys = new Set<string>();
+      const redis = this.getRedisClient();
+
+      for (const tag of tags) {
+        if (redis) {
+          const tagKey = this.prefixKey(TAG_PREFIX + tag);
+          const [[, members]] = await redis.multi().smembers(tagKey).del(tagKey).exec();
+          (members as string[]).forEach((key) => keys.add(key));
+        } else {
+          const index: TagIndex | undefined = await this.keyv.get(TAG_PREFIX + tag);
+          index?.keys.forEach((key) => keys.add(key));
+          await this.keyv.delete(TAG_PREFIX + tag);
+        }
+      }
+
+      // Only report keys that were still cached
+      const deleted = await Promise.all(
+        Array.from(keys, async (key) => ((await this.keyv.delete(key)) ? key : null)),
+      );
+      return deleted.filter((key): key is string => key !== null);
+    } catch (error) {
+      throw new CacheError(
+        'Failed to invalidate tags',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Live keys in Keyv's namespace matching regex, without the namespace prefix
+   * Reads the store directly as Keyv.iterator() only loosely matches the namespace
+   */
+  private async *iterateKeys(regex: RegExp | null): AsyncGenerator<string> {
+    const { store, namespace, deserialize } = this.keyv.opts;
+
+    // Keyv only attaches iterator() for stores that can enumerate their keys
+    if (typeof (this.keyv as any).iterator !== 'function') {
+      throw new CacheError(
+        'The Keyv store does not support enumerating keys',
+        CacheErrorCode.NOT_SUPPORTED,
+      );
+    }
+
+    const prefix = namespace ? `${namespace}:` : '';
+    const entries: AsyncIterable<[string, any]> | Iterable<[string, any]> =
+      store instanceof Map ? store.entries() : (store as any).iterator(namespace);
+    const now = Date.now();
+
+    for await (const [key, raw] of entries) {
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+      const unprefixed = key.slice(prefix.length);
+      if (unprefixed.startsWith(TAG_PREFIX) || unprefixed.startsWith(LOCK_PREFIX)) {
+        continue;
+      }
+
+      // Values written outside Keyv (e.g. by other clients) may not parse
+      let data: any;
+      try {
+        data = typeof raw === 'string' ? await deserialize(raw) : raw;
+      } catch {
+        continue;
+      }
+      if (typeof data?.expires === 'number' && data.expires < now) {
+        continue;
+      }
+
+      if (!regex || regex.test(unprefixed)) {
+        yield unprefixed;
+      }
+    }
+  }
+
+  /**
+   * Underlying ioredis client when the Keyv store is @keyv/redis
+   */
+  private getRedisClient(): any {
+    const redis = (this.keyv.opts.store as any)?.redis;
+    return redis && typeof redis.set === 'function' && typeof redis.eval === 'function'
+      ? redis
+      : null;
+  }
+
+  /**
+   * Apply Keyv's namespace prefix for direct store access
+   */
+  private prefixKey(key: string): string {
+    return this.keyv.opts.namespace ? `${this.keyv.opts.namespace}:${key}` : key;
+  }
+
+  /**
+   * Verify the store is reachable
+   * Keyv stores connect lazily, so this is the first round-trip
+   */
+  async connect(): Promise<void> {
+    await this.ping();
+  }
+
   /**
    * Disconnect from the store
    */
-  async disconnect(): Promise<void> {
+  async close(): Promise<void> {
     try {
       await this.keyv.disconnect();
     } catch (error) {
-      console.error('Error disconnecting from Keyv:', error);
+      this.logger.error('Error disconnecting from Keyv', { error });
+    }
+  }
+
+  async ping(): Promise<void> {
+    try {
+      const redis = this.getRedisClient();
+      if (redis) {
+        await redis.ping();
+        return;
+      }
+
+      // No generic ping in Keyv - a read round-trips to the store
+      await this.keyv.get(PING_KEY);
+    } catch (error) {
+      throw new CacheError(
+        'Cache store is unreachable',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
     }
   }
+
+  /**
+   * Disconnect from the store
+   * @deprecated Use close()
+   */
+  async disconnect(): Promise<void> {
+    return this.close();
+  }
 }
@@ -1,13 +1,32 @@
-import { ICacheAdapter, CacheStats } from '../core/interfaces';
+import { randomUUID } from 'crypto';
+import {
+  ICacheAdapter,
+  AdapterEvent,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ScanOptions,
+} from '../core/interfaces';
+import { globToRegExp } from '../utils/glob';
+import { batchKeys } from '../utils/scan';
+import { EvictionPolicyName, IEvictionPolicy, createEvictionPolicy } from './eviction-policy';
 
 interface CacheEntry<T> {
   value: T;
   expiresAt: number;
+  size: number; // bytes, as reported by the weigher
+}
+
+interface LockEntry {
+  token: string;
+  expiresAt: number;
 }
 
 interface MemoryAdapterOptions {
   max?: number; // Maximum number of items
   maxSize?: number; // Maximum memory size in bytes
+  policy?: EvictionPolicyName; // Which key to evict when full (default: lru)
+  weigher?: (key: string, value: any) => number; // Entry size in bytes (default: estimate)
 }
 
 /**
@@ -16,21 +35,58 @@ interface MemoryAdapterOptions {
  */
 export class MemoryAdapter implements ICacheAdapter {
   private readonly cache: Map<string, CacheEntry<any>>;
+  private readonly locks: Map<string, LockEntry>;
+  private readonly tags: Map<string, Set<string>>;
   private readonly options: MemoryAdapterOptions;
+  private readonly policy: IEvictionPolicy;
+  private readonly listeners: Set<(event: AdapterEvent) => void> = new Set();
   private hits: number = 0;
   private misses: number = 0;
+  private evictions: number = 0;
+  private bytes: number = 0;
+  private cleanupTimer: NodeJS.Timeout | null = null;
   private readonly startTime: number;
 
   constructor(options: MemoryAdapterOptions = {}) {
     this.cache = new Map();
+    this.locks = new Map();
+    this.tags = new Map();
     this.options = {
       max: options.max || 1000,
       maxSize: options.maxSize,
+      policy: options.policy || 'lru',
+      weigher: options.weigher || estimateSize,
     };
+    this.policy = createEvictionPolicy(this.options.policy!, this.options.max!);
     this.startTime = Date.now();
 
-    // Cleanup expired entries periodically
-    setInterval(() => this.cleanup(), 60000); // Every minute
+    this.startCleanup();
+  }
+
+  /**
+   * Restart the cleanup timer after close()
+   */
+  async connect(): Promise<void> {
+    this.startCleanup();
+  }
+
+  /**
+   * Stop the cleanup timer
+   * Entries are kept, so the adapter can still be used
+   */
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  onEvent(listener: (event: AdapterEvent) => void): void {
+    this.listeners.add(listener);
   }
 
   async get<T>(key: string): Promise<T | null> {
@@ -43,58 +99,74 @@ export class MemoryAdapter implements ICacheAdapter {
 
     // Check if expired
     if (entry.expiresAt && entry.expiresAt < Date.now()) {
-      this.cache.delete(key);
+      this.expire(key);
       this.misses++;
       return null;
     }
 
     this.hits++;
+    this.policy.onAccess(key);
     return entry.value as T;
   }
 
   async set<T>(key: string, value: T, ttl?: number): Promise<void> {
-    // Enforce max items limit
-    if (this.options.max && this.cache.size >= this.options.max && !this.cache.has(key)) {
-      // Evict oldest entry (LRU)
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
+    const size = this.options.weigher!(key, value);
+    if (this.options.maxSize && size > this.options.maxSize) {
+      // Don't keep serving the previous value
+      this.remove(key);
+      throw new CacheError(
+        `Value is ${size} bytes, exceeding maxSize of ${this.options.maxSize}`,
+        CacheErrorCode.VALUE_TOO_LARGE,
+      );
     }
 
     const expiresAt = ttl ? Date.now() + ttl * 1000 : 0;
+    const existing = this.cache.get(key);
 
     this.cache.set(key, {
       value,
       expiresAt,
+      size,
     });
+    this.bytes += size - (existing?.size ?? 0);
+
+    if (existing) {
+      this.policy.onAccess(key);
+    } else {
+      this.policy.onInsert(key);
+    }
+
+    // Enforce max items and maxSize - the policy may reject the new key itself
+    while (this.isOverCapacity()) {
+      const victim = this.policy.victim();
+      if (victim === undefined) {
+        break;
+      }
+      this.remove(victim);
+      this.evictions++;
+      this.notify({ type: 'evict', key: victim });
+    }
   }
 
   async delete(key: string | string[]): Promise<void> {
     if (Array.isArray(key)) {
-      key.forEach((k) => this.cache.delete(k));
+      key.forEach((k) => this.remove(k));
     } else {
-      this.cache.delete(key);
+      this.remove(key);
     }
   }
 
   async clear(pattern?: string): Promise<void> {
     if (!pattern) {
       this.cache.clear();
+      this.policy.clear();
+      this.bytes = 0;
       return;
     }
 
-    // Simple pattern matching (* wildcard)
-    const regex = this.patternToRegex(pattern);
-    const keysToDelete: string[] = [];
-
-    for (const key of this.cache.keys()) {
-      if (regex.test(key)) {
-        keysToDelete.push(key);
-      }
+    for await (const batch of this.scan(pattern)) {
+      batch.forEach((key) => this.remove(key));
     }
-
-    keysToDelete.forEach((key) => this.cache.delete(key));
   }
 
   async has(key: string): Promise<boolean> {
@@ -105,7 +177,7 @@ export class MemoryAdapter implements ICacheAdapter {
 
     // Check if expired
     if (entry.expiresAt && entry.expiresAt < Date.now()) {
-      this.cache.delete(key);
+      this.expire(key);
       return false;
     }
 
@@ -142,25 +214,103 @@ export class MemoryAdapter implements ICacheAdapter {
       return allKeys;
     }
 
-    const regex = this.patternToRegex(pattern);
+    const regex = globToRegExp(pattern);
     return allKeys.filter((key) => regex.test(key));
   }
 
-  async stats(): Promise<CacheStats> {
-    // Clean up expired entries before calculating stats
-    this.cleanup();
+  /**
+   * Iterates the live key set, so a scan never copies all keys
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const regex = pattern ? globToRegExp(pattern) : null;
+    const cache = this.cache;
+
+    function* matching(): Iterable<string> {
+      for (const key of cache.keys()) {
+        if (!regex || regex.test(key)) {
+          yield key;
+        }
+      }
+    }
+
+    yield* batchKeys(matching(), options.batchSize);
+  }
 
+  /**
+   * O(1) - keys and memory include expired entries until the next cleanup sweep
+   */
+  async stats(): Promise<CacheStats> {
     return {
       hits: this.hits,
       misses: this.misses,
       keys: this.cache.size,
-      memory: this.estimateMemoryUsage(),
+      memory: this.bytes,
       uptime: Date.now() - this.startTime,
+      evictions: this.evictions,
     };
   }
 
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const existing = this.locks.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return null;
+    }
+
+    const token = randomUUID();
+    this.locks.set(key, { token, expiresAt: Date.now() + ttl * 1000 });
+    return token;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
+  }
+
+  async tagKey(key: string, tags: string[], _ttl?: number): Promise<void> {
+    for (const tag of tags) {
+      let keys = this.tags.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tags.set(tag, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    const keys = new Set<string>();
+
+    for (const tag of tags) {
+      this.tags.get(tag)?.forEach((key) => keys.add(key));
+      this.tags.delete(tag);
+    }
+
+    // Only report keys that were still cached
+    return Array.from(keys).filter((key) => this.remove(key));
+  }
+
   /**
-   * Remove expired entries
+   * Cleanup expired entries periodically
+   */
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60000); // Every minute
+    // Don't keep the process alive just for cleanup
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Remove expired entries and prune tag index
    */
   private cleanup(): void {
     const now = Date.now();
@@ -172,38 +322,73 @@ export class MemoryAdapter implements ICacheAdapter {
       }
     }
 
-    keysToDelete.forEach((key) => this.cache.delete(key));
+    keysToDelete.forEach((key) => this.expire(key));
+
+    for (const [key, lock] of this.locks.entries()) {
+      if (lock.expiresAt < now) {
+        this.locks.delete(key);
+      }
+    }
+
+    for (const [tag, keys] of this.tags.entries()) {
+      keys.forEach((key) => {
+        if (!this.cache.has(key)) {
+          keys.delete(key);
+        }
+      });
+      if (keys.size === 0) {
+        this.tags.delete(tag);
+      }
+    }
   }
 
   /**
-   * Estimate memory usage (rough approximation)
+   * Remove an entry and stop tracking it in the eviction policy
+   * @returns Whether the key was cached
    */
-  private estimateMemoryUsage(): number {
-    let size = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      // Key size
-      size += key.length * 2; // 2 bytes per character (UTF-16)
-
-      // Value size (rough estimate)
-      const valueStr = JSON.stringify(entry.value);
-      size += valueStr.length * 2;
-
-      // Entry overhead
-      size += 16; // Approximate overhead per entry
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
     }
 
-    return size;
+    this.policy.onRemove(key);
+    this.cache.delete(key);
+    this.bytes -= entry.size;
+    return true;
   }
 
   /**
-   * Convert glob pattern to regex
+   * Remove an entry past its TTL
    */
-  private patternToRegex(pattern: string): RegExp {
-    // Escape special regex characters except *
-    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
-    // Replace * with .*
-    const regexStr = escaped.replace(/\*/g, '.*');
-    return new RegExp(`^${regexStr}$`);
+  private expire(key: string): void {
+    if (this.remove(key)) {
+      this.notify({ type: 'expire', key });
+    }
+  }
+
+  private notify(event: AdapterEvent): void {
+    this.listeners.forEach((listener) => listener(event));
   }
+
+  private isOverCapacity(): boolean {
+    const { max, maxSize } = this.options;
+    return (!!max && this.cache.size > max) || (!!maxSize && this.bytes > maxSize);
+  }
+}
+
+/**
+ * Default weigher - rough estimate of an entry's memory footprint
+ */
+function estimateSize(key: string, value: any): number {
+  let valueStr: string;
+  try {
+    valueStr = typeof value === 'string' ? value : (JSON.stringify(value) ?? '');
+  } catch {
+    // e.g. BigInt or circular values
+    valueStr = String(value);
+  }
+
+  // 2 bytes per character (UTF-16) plus approximate per-entry overhead
+  return (key.length + valueStr.length) * 2 + 16;
 }
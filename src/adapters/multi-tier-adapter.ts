@@ -1,10 +1,27 @@
-import { ICacheAdapter, CacheStats } from '../core/interfaces';
+import { randomUUID } from 'crypto';
+import { HealthProbe } from '../utils/health-probe';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { scanAdapter } from '../utils/scan';
+import { setActiveSpanAttribute } from '../tracing/cache-tracer';
+import {
+  ICacheAdapter,
+  AdapterEvent,
+  AdapterHealth,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  IInvalidationBus,
+  InvalidationMessage,
+  ScanOptions,
+} from '../core/interfaces';
 
 export interface MultiTierOptions {
   l1: ICacheAdapter; // Fast local cache (usually memory)
   l2: ICacheAdapter; // Slower distributed cache (usually Redis)
   l1TTL?: number; // TTL for L1 in seconds
   l2TTL?: number; // TTL for L2 in seconds
+  bus?: IInvalidationBus; // Evicts peer instances' L1 on writes
+  logger?: CacheLogger;
 }
 
 /**
@@ -18,18 +35,54 @@ export interface MultiTierOptions {
  * 
  * Write flow:
  * 1. Write to both L1 and L2 simultaneously
+ * 2. Broadcast the key on the invalidation bus so peers drop their L1 copy
  */
 export class MultiTierAdapter implements ICacheAdapter {
   private readonly l1: ICacheAdapter;
   private readonly l2: ICacheAdapter;
   private readonly l1TTL: number;
   private readonly l2TTL: number;
+  private readonly bus: IInvalidationBus | null;
+  private readonly logger: CacheLogger;
+  private l1Hits: number = 0;
+  private l2Hits: number = 0;
+  private misses: number = 0;
+  private readonly instanceId: string = randomUUID();
+  private readonly l1Probe: HealthProbe;
+  private readonly l2Probe: HealthProbe;
+  private subscribed: boolean = false;
+
+  /**
+   * Locks and tags live on L2 so they are shared across instances
+   * Only exposed when L2 supports them
+   */
+  readonly acquireLock?: (key: string, ttl: number) => Promise<string | null>;
+  readonly releaseLock?: (key: string, token: string) => Promise<void>;
+  readonly tagKey?: (key: string, tags: string[], ttl?: number) => Promise<void>;
+  readonly invalidateTags?: (tags: string[]) => Promise<string[]>;
 
   constructor(options: MultiTierOptions) {
     this.l1 = options.l1;
     this.l2 = options.l2;
     this.l1TTL = options.l1TTL || 300; // 5 minutes default for L1
     this.l2TTL = options.l2TTL || 3600; // 1 hour default for L2
+    this.bus = options.bus || null;
+    this.logger = options.logger ?? defaultLogger;
+    this.l1Probe = new HealthProbe(this.l1);
+    this.l2Probe = new HealthProbe(this.l2);
+
+    const { acquireLock, releaseLock, tagKey, invalidateTags } = this.l2;
+    this.acquireLock = acquireLock?.bind(this.l2);
+    this.releaseLock = releaseLock?.bind(this.l2);
+    if (tagKey) {
+      this.tagKey = (key, tags, ttl) => tagKey.call(this.l2, key, tags, ttl || this.l2TTL);
+    }
+    if (invalidateTags) {
+      this.invalidateTags = (tags) => this.invalidateTaggedKeys(invalidateTags.call(this.l2, tags));
+    }
+
+    // Subscribe right away for callers that never call connect()
+    void this.subscribeToBus();
   }
 
   /**
@@ -40,19 +93,27 @@ export class MultiTierAdapter implements ICacheAdapter {
     // Try L1 first (fast path)
     const l1Value = await this.l1.get<T>(key);
     if (l1Value !== null) {
+      this.l1Hits++;
+      setActiveSpanAttribute('cache.tier', 'l1');
       return l1Value;
     }
 
     // Try L2 (slower path)
     const l2Value = await this.l2.get<T>(key);
     if (l2Value !== null) {
+      this.l2Hits++;
+      setActiveSpanAttribute('cache.tier', 'l2');
       // Backfill L1 asynchronously (don't wait for it)
-      this.l1.set(key, l2Value, this.l1TTL).catch((err) => {
-        console.error('Failed to backfill L1 cache:', err);
-      });
+      this.l1
+        .set(key, l2Value, this.l1TTL)
+        .catch(skipTooLarge)
+        .catch((err) => {
+          this.logger.error('Failed to backfill L1 cache', { key, error: err });
+        });
       return l2Value;
     }
 
+    this.misses++;
     return null;
   }
 
@@ -62,9 +123,10 @@ export class MultiTierAdapter implements ICacheAdapter {
   async set<T>(key: string, value: T, ttl?: number): Promise<void> {
     // Write to both tiers in parallel
     await Promise.all([
-      this.l1.set(key, value, ttl || this.l1TTL),
+      this.l1.set(key, value, ttl || this.l1TTL).catch(skipTooLarge),
       this.l2.set(key, value, ttl || this.l2TTL),
     ]);
+    await this.publish({ type: 'set', keys: [key] });
   }
 
   /**
@@ -72,6 +134,7 @@ export class MultiTierAdapter implements ICacheAdapter {
    */
   async delete(key: string | string[]): Promise<void> {
     await Promise.all([this.l1.delete(key), this.l2.delete(key)]);
+    await this.publish({ type: 'delete', keys: Array.isArray(key) ? key : [key] });
   }
 
   /**
@@ -79,6 +142,7 @@ export class MultiTierAdapter implements ICacheAdapter {
    */
   async clear(pattern?: string): Promise<void> {
     await Promise.all([this.l1.clear(pattern), this.l2.clear(pattern)]);
+    await this.publish({ type: 'clear', pattern });
   }
 
   /**
@@ -102,6 +166,7 @@ export class MultiTierAdapter implements ICacheAdapter {
 
     // Find missing keys
     const missingKeys = keys.filter((key) => !l1Results.has(key));
+    this.l1Hits += l1Results.size;
 
     if (missingKeys.length === 0) {
       return l1Results;
@@ -109,12 +174,20 @@ export class MultiTierAdapter implements ICacheAdapter {
 
     // Fetch missing from L2
     const l2Results = await this.l2.mget<T>(missingKeys);
+    this.l2Hits += l2Results.size;
+    this.misses += missingKeys.length - l2Results.size;
 
     // Backfill L1 with L2 results (async, don't wait)
     if (l2Results.size > 0) {
-      this.l1.mset(l2Results, this.l1TTL).catch((err) => {
-        console.error('Failed to backfill L1 cache:', err);
-      });
+      this.l1
+        .mset(l2Results, this.l1TTL)
+        .catch(skipTooLarge)
+        .catch((err) => {
+          this.logger.error('Failed to backfill L1 cache', {
+            keys: Array.from(l2Results.keys()),
+            error: err,
+          });
+        });
     }
 
     // Merge results
@@ -131,9 +204,10 @@ export class MultiTierAdapter implements ICacheAdapter {
    */
   async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
     await Promise.all([
-      this.l1.mset(entries, ttl || this.l1TTL),
+      this.l1.mset(entries, ttl || this.l1TTL).catch(skipTooLarge),
       this.l2.mset(entries, ttl || this.l2TTL),
     ]);
+    await this.publish({ type: 'set', keys: Array.from(entries.keys()) });
   }
 
   /**
@@ -144,18 +218,174 @@ export class MultiTierAdapter implements ICacheAdapter {
     return this.l2.keys(pattern);
   }
 
+  /**
+   * Scan keys matching pattern in L2
+   */
+  scan(pattern?: string, options?: ScanOptions): AsyncIterable<string[]> {
+    return scanAdapter(this.l2, pattern, options);
+  }
+
   /**
    * Get combined statistics from both tiers
    */
   async stats(): Promise<CacheStats> {
     const [l1Stats, l2Stats] = await Promise.all([this.l1.stats(), this.l2.stats()]);
 
+    // Counted here rather than summed from the tiers, which also see health probes
     return {
-      hits: l1Stats.hits + l2Stats.hits,
-      misses: Math.max(l1Stats.misses, l2Stats.misses), // Avoid double counting
+      hits: this.l1Hits + this.l2Hits,
+      misses: this.misses,
+      tierHits: { l1: this.l1Hits, l2: this.l2Hits },
       keys: l2Stats.keys, // L2 is source of truth
       memory: l1Stats.memory + (l2Stats.memory > 0 ? l2Stats.memory : 0),
       uptime: Math.min(l1Stats.uptime, l2Stats.uptime),
+      ...(l1Stats.evictions !== undefined || l2Stats.evictions !== undefined
+        ? { evictions: (l1Stats.evictions ?? 0) + (l2Stats.evictions ?? 0) }
+        : {}),
+    };
+  }
+
+  resetStats(): void {
+    this.l1Hits = 0;
+    this.l2Hits = 0;
+    this.misses = 0;
+    this.l1.resetStats?.();
+    this.l2.resetStats?.();
+  }
+
+  /**
+   * Drop keys invalidated by tag on L2 from L1 here and on peers
+   */
+  private async invalidateTaggedKeys(invalidated: Promise<string[]>): Promise<string[]> {
+    const keys = await invalidated;
+    if (keys.length > 0) {
+      await this.l1.delete(keys);
+      await this.publish({ type: 'delete', keys });
+    }
+    return keys;
+  }
+
+  /**
+   * Connect both tiers and subscribe to the invalidation bus
+   */
+  async connect(): Promise<void> {
+    await Promise.all([this.l1.connect?.(), this.l2.connect?.(), this.subscribeToBus()]);
+  }
+
+  /**
+   * Close both tiers and the invalidation bus
+   * connect() subscribes to the bus again
+   */
+  async close(): Promise<void> {
+    this.subscribed = false;
+    await Promise.all([this.l1.close?.(), this.l2.close?.(), this.bus?.close()]);
+  }
+
+  /**
+   * Ping both tiers - fails if either is unreachable
+   */
+  async ping(): Promise<void> {
+    await Promise.all([this.l1.ping?.(), this.l2.ping?.()]);
+  }
+
+  /**
+   * Probe each tier
+   * Degraded when only one tier is reachable - e.g. L2 down while L1 keeps serving
+   */
+  async health(): Promise<AdapterHealth> {
+    const [l1, l2] = await Promise.all([
+      this.l1.health ? this.l1.health() : this.l1Probe.check(),
+      this.l2.health ? this.l2.health() : this.l2Probe.check(),
+    ]);
+
+    const reachable = l1.reachable || l2.reachable;
+    const lastError = l2.lastError ? l2 : l1;
+
+    return {
+      status: !reachable ? 'down' : l1.status === 'up' && l2.status === 'up' ? 'up' : 'degraded',
+      reachable,
+      latency: Math.max(l1.latency, l2.latency),
+      ...(lastError.lastError
+        ? { lastError: lastError.lastError, lastErrorAt: lastError.lastErrorAt }
+        : {}),
+      tiers: { l1, l2 },
     };
   }
+
+  /**
+   * Forward evictions and expirations from both tiers, tagged with the tier
+   */
+  onEvent(listener: (event: AdapterEvent) => void): void {
+    this.l1.onEvent?.((event) => listener({ ...event, tier: 'l1' }));
+    this.l2.onEvent?.((event) => listener({ ...event, tier: 'l2' }));
+  }
+
+  /**
+   * Broadcast an L1 invalidation to peer instances
+   * Failures are logged - L1 entries still expire after l1TTL
+   */
+  private async publish(message: Omit<InvalidationMessage, 'origin'>): Promise<void> {
+    if (!this.bus) {
+      return;
+    }
+
+    try {
+      await this.bus.publish({ origin: this.instanceId, ...message });
+    } catch (err) {
+      this.logger.error('Failed to publish L1 invalidation', {
+        keys: message.keys,
+        pattern: message.pattern,
+        error: err,
+      });
+    }
+  }
+
+  /**
+   * Subscribe to the invalidation bus unless already subscribed
+   * Failures are logged; peers' writes then reach L1 only once its TTL expires
+   */
+  private async subscribeToBus(): Promise<void> {
+    if (!this.bus || this.subscribed) {
+      return;
+    }
+
+    this.subscribed = true;
+    try {
+      await this.bus.subscribe((message) => this.onInvalidation(message));
+    } catch (err) {
+      this.subscribed = false;
+      this.logger.error('Failed to subscribe to invalidation bus', { error: err });
+    }
+  }
+
+  /**
+   * Evict L1 entries changed by a peer instance
+   */
+  private onInvalidation(message: InvalidationMessage): void {
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    const eviction =
+      message.type === 'clear'
+        ? this.l1.clear(message.pattern)
+        : this.l1.delete(message.keys || []);
+
+    eviction.catch((err) => {
+      this.logger.error('Failed to apply L1 invalidation', {
+        keys: message.keys,
+        pattern: message.pattern,
+        error: err,
+      });
+    });
+  }
+}
+
+/**
+ * Values over the L1 size budget are only cached in L2
+ */
+function skipTooLarge(err: unknown): void {
+  if (!(err instanceof CacheError && err.code === CacheErrorCode.VALUE_TOO_LARGE)) {
+    throw err;
+  }
 }
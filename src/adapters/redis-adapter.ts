@@ -0,0 +1,419 @@
+import { randomUUID } from 'crypto';
+import {
+  ICacheAdapter,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ISerializer,
+  ScanOptions,
+} from '../core/interfaces';
+import { JsonSerializer } from '../serializers/json-serializer';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { batchKeys } from '../utils/scan';
+import { RELEASE_LOCK_SCRIPT, TAG_KEY_SCRIPT } from './redis-scripts';
+
+/**
+ * Default SCAN COUNT hint
+ */
+const DEFAULT_SCAN_COUNT = 100;
+
+/**
+ * Prefix for tag index keys
+ */
+const TAG_PREFIX = '__tag__:';
+
+/**
+ * Prefix for lock keys, so locks never collide with cached keys
+ */
+const LOCK_PREFIX = '__lock__:';
+
+export interface RedisAdapterOptions {
+  uri?: string;
+  client?: any; // existing ioredis (or compatible) client, left open by close()
+  redisOptions?: Record<string, any>; // ioredis options when connecting with uri
+  keyPrefix?: string; // prepended to every key, e.g. 'myapp:'
+  ttl?: number; // default TTL in seconds for set() without a TTL
+  scanCount?: number; // SCAN COUNT hint and clear() batch size, default 100
+  serializer?: ISerializer; // encodes stored values, default type-preserving JSON
+  logger?: CacheLogger;
+}
+
+/**
+ * Redis adapter on ioredis
+ * Uses server-side TTLs, MGET and pipelined SET for batches, UNLINK for
+ * deletes and SCAN for keys() and clear(pattern)
+ * Requires the optional ioredis package unless a client is provided
+ */
+export class RedisAdapter implements ICacheAdapter {
+  private readonly client: any;
+  private readonly ownsClient: boolean;
+  private readonly prefix: string;
+  private readonly defaultTTL?: number;
+  private readonly scanCount: number;
+  private readonly serializer: ISerializer;
+  private readonly logger: CacheLogger;
+  private hits: number = 0;
+  private misses: number = 0;
+  private readonly startTime: number = Date.now();
+
+  constructor(options: RedisAdapterOptions) {
+    if (!options.client && !options.uri) {
+      throw new Error('RedisAdapter requires a "client" or "uri" option');
+    }
+
+    this.client = options.client ?? createRedisClient(options.uri!, options.redisOptions);
+    this.ownsClient = !options.client;
+    this.prefix = options.keyPrefix ?? '';
+    this.defaultTTL = options.ttl;
+    this.scanCount = options.scanCount ?? DEFAULT_SCAN_COUNT;
+    this.serializer = options.serializer ?? new JsonSerializer();
+    this.logger = options.logger ?? defaultLogger;
+
+    this.client.on?.('error', (err: Error) => {
+      this.logger.error('Redis connection error', { error: err });
+    });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const data = await this.client.getBuffer(this.prefixKey(key));
+
+      if (data === null) {
+        this.misses++;
+        return null;
+      }
+
+      this.hits++;
+      return this.serializer.deserialize<T>(data);
+    } catch (error) {
+      throw toCacheError('Failed to get key', error);
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    try {
+      await this.client.set(this.prefixKey(key), this.serializer.serialize(value), ...this.px(ttl));
+    } catch (error) {
+      throw toCacheError('Failed to set key', error);
+    }
+  }
+
+  async delete(key: string | string[]): Promise<void> {
+    const keys = Array.isArray(key) ? key : [key];
+    if (keys.length === 0) {
+      return;
+    }
+
+    try {
+      await this.client.unlink(...keys.map((k) => this.prefixKey(k)));
+    } catch (error) {
+      throw toCacheError('Failed to delete key(s)', error);
+    }
+  }
+
+  /**
+   * Delete matching keys with SCAN, scanCount keys at a time
+   * Without a pattern, deletes every key under keyPrefix (the whole database
+   * if there is no prefix)
+   */
+  async clear(pattern?: string): Promise<void> {
+    try {
+      // Held locks survive a clear
+      const keys = this.withoutLocks(this.scanKeys(pattern ?? '*', this.scanCount));
+      for await (const batch of batchKeys(keys, this.scanCount)) {
+        await this.client.unlink(...batch);
+      }
+    } catch (error) {
+      throw toCacheError('Failed to clear cache', error);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return (await this.client.exists(this.prefixKey(key))) === 1;
+    } catch (error) {
+      throw toCacheError('Failed to check key', error);
+    }
+  }
+
+  async mget<T>(keys: string[]): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+    if (keys.length === 0) {
+      return results;
+    }
+
+    try {
+      const values: (Buffer | null)[] = await this.client.mgetBuffer(
+        ...keys.map((key) => this.prefixKey(key)),
+      );
+
+      values.forEach((data, i) => {
+        if (data === null) {
+          this.misses++;
+          return;
+        }
+        this.hits++;
+        results.set(keys[i], this.serializer.deserialize<T>(data));
+      });
+
+      return results;
+    } catch (error) {
+      throw toCacheError('Failed to get multiple keys', error);
+    }
+  }
+
+  /**
+   * One round trip - MSET can't set TTLs, so entries are pipelined SETs
+   */
+  async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
+    if (entries.size === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.client.pipeline();
+      entries.forEach((value, key) => {
+        pipeline.set(this.prefixKey(key), this.serializer.serialize(value), ...this.px(ttl));
+      });
+      await exec(pipeline);
+    } catch (error) {
+      throw toCacheError('Failed to set multiple keys', error);
+    }
+  }
+
+  /**
+   * Keys matching a glob pattern, found with SCAN
+   * Tag index keys are not included
+   */
+  async keys(pattern?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const batch of this.scan(pattern)) {
+      keys.push(...batch);
+    }
+    return keys;
+  }
+
+  /**
+   * Keys matching a glob pattern in batches of at most batchSize, which is
+   * also the SCAN COUNT hint (default scanCount)
+   * Tag index keys are not included
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const batchSize = options.batchSize ?? this.scanCount;
+
+    try {
+      yield* batchKeys(this.cacheKeys(pattern ?? '*', batchSize), batchSize);
+    } catch (error) {
+      throw toCacheError('Failed to scan keys', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      keys: -1, // Not available without scanning all keys
+      memory: -1, // Not available per prefix
+      uptime: Date.now() - this.startTime,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const token = randomUUID();
+
+    try {
+      const lockKey = this.prefixKey(LOCK_PREFIX + key);
+      const result = await this.client.set(lockKey, token, 'PX', ttl * 1000, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      throw toCacheError('Failed to acquire lock', error);
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      await this.client.eval(RELEASE_LOCK_SCRIPT, 1, this.prefixKey(LOCK_PREFIX + key), token);
+    } catch (error) {
+      throw toCacheError('Failed to release lock', error);
+    }
+  }
+
+  async tagKey(key: string, tags: string[], ttl?: number): Promise<void> {
+    const ttlMs = ttl ? ttl * 1000 : 0;
+
+    try {
+      const tagKeys = tags.map((tag) => this.prefixKey(TAG_PREFIX + tag));
+      await this.client.eval(TAG_KEY_SCRIPT, tagKeys.length, ...tagKeys, key, ttlMs);
+    } catch (error) {
+      throw toCacheError('Failed to tag key', error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    try {
+      const keys = new Set<string>();
+
+      for (const tag of tags) {
+        const tagKey = this.prefixKey(TAG_PREFIX + tag);
+        const [members] = await exec(this.client.multi().smembers(tagKey).del(tagKey));
+        (members as string[]).forEach((key) => keys.add(key));
+      }
+
+      if (keys.size === 0) {
+        return [];
+      }
+
+      // Only report keys that were still cached
+      const pipeline = this.client.pipeline();
+      keys.forEach((key) => pipeline.unlink(this.prefixKey(key)));
+      const removed = await exec(pipeline);
+      return Array.from(keys).filter((_key, i) => removed[i] === 1);
+    } catch (error) {
+      throw toCacheError('Failed to invalidate tags', error);
+    }
+  }
+
+  /**
+   * Verify the server is reachable
+   */
+  async connect(): Promise<void> {
+    await this.ping();
+  }
+
+  /**
+   * Disconnect, unless the client was provided by the caller
+   */
+  async close(): Promise<void> {
+    if (!this.ownsClient) {
+      return;
+    }
+
+    try {
+      await this.client.quit();
+    } catch (error) {
+      this.logger.error('Error disconnecting from Redis', { error });
+    }
+  }
+
+  async ping(): Promise<void> {
+    try {
+      await this.client.ping();
+    } catch (error) {
+      throw new CacheError(
+        'Cache store is unreachable',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Prefixed keys matching pattern, one SCAN call at a time
+   * @param count - SCAN COUNT hint
+   */
+  private async *scanKeys(pattern: string, count: number): AsyncGenerator<string> {
+    const match = escapeGlob(this.prefix) + pattern;
+    let cursor = '0';
+
+    do {
+      const [next, keys]: [string, string[]] = await this.client.scan(
+        cursor,
+        'MATCH',
+        match,
+        'COUNT',
+        count,
+      );
+      cursor = next;
+      yield* keys;
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Unprefixed cache keys matching pattern, skipping tag indexes and locks
+   */
+  private async *cacheKeys(pattern: string, count: number): AsyncGenerator<string> {
+    for await (const prefixed of this.scanKeys(pattern, count)) {
+      const key = prefixed.slice(this.prefix.length);
+      if (!key.startsWith(TAG_PREFIX) && !key.startsWith(LOCK_PREFIX)) {
+        yield key;
+      }
+    }
+  }
+
+  /**
+   * Prefixed keys other than locks
+   */
+  private async *withoutLocks(keys: AsyncIterable<string>): AsyncGenerator<string> {
+    const lockPrefix = this.prefixKey(LOCK_PREFIX);
+    for await (const key of keys) {
+      if (!key.startsWith(lockPrefix)) {
+        yield key;
+      }
+    }
+  }
+
+  private prefixKey(key: string): string {
+    return this.prefix + key;
+  }
+
+  /**
+   * SET expiry arguments - falls back to the default TTL, no expiry without one
+   */
+  private px(ttl?: number): (string | number)[] {
+    const seconds = ttl || this.defaultTTL;
+    return seconds ? ['PX', seconds * 1000] : [];
+  }
+}
+
+/**
+ * Run a pipeline or transaction
+ * @returns Reply of each command
+ * @throws The first command error
+ */
+async function exec(pipeline: any): Promise<unknown[]> {
+  const results: [Error | null, unknown][] = await pipeline.exec();
+  const failed = results.find(([err]) => err);
+  if (failed) {
+    throw failed[0];
+  }
+  return results.map(([, result]) => result);
+}
+
+/**
+ * Keep CacheErrors (e.g. serialization failures), wrap anything else as a connection error
+ */
+function toCacheError(message: string, error: unknown): CacheError {
+  return error instanceof CacheError
+    ? error
+    : new CacheError(message, CacheErrorCode.CONNECTION_ERROR, error as Error);
+}
+
+/**
+ * Escape glob characters so a key prefix only matches itself
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create an ioredis client from the optional ioredis dependency
+ */
+function createRedisClient(uri: string, options: Record<string, any> = {}): any {
+  let Redis: any;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    Redis = require('ioredis');
+  } catch (error) {
+    throw new CacheError(
+      'RedisAdapter requires the "ioredis" package. Install it with: npm install ioredis',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+  return new Redis(uri, options);
+}
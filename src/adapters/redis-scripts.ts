@@ -0,0 +1,26 @@
+/**
+ * Lua scripts shared by the Redis-backed adapters
+ */
+
+/**
+ * Compare-and-delete so a lock is only released by its owner
+ */
+export const RELEASE_LOCK_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end';
+
+/**
+ * Add a key to tag sets, extending each set's expiry to cover the key
+ * ARGV: key, ttl in ms (0 = no expiry)
+ */
+export const TAG_KEY_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+for _, tag in ipairs(KEYS) do
+  local current = redis.call("pttl", tag)
+  redis.call("sadd", tag, ARGV[1])
+  if ttl == 0 then
+    redis.call("persist", tag)
+  elseif current == -2 or (current >= 0 and current < ttl) then
+    redis.call("pexpire", tag, ttl)
+  end
+end
+return 1`;
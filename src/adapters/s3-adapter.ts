@@ -0,0 +1,528 @@
+import { randomUUID } from 'crypto';
+import {
+  ICacheAdapter,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ISerializer,
+  ScanOptions,
+} from '../core/interfaces';
+import { JsonSerializer } from '../serializers/json-serializer';
+import { globPrefix, globToRegExp } from '../utils/glob';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { batchKeys } from '../utils/scan';
+
+/**
+ * Default page size for listing, and batch size for clear()
+ * DeleteObjects accepts at most 1000 keys per request
+ */
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Object metadata holding the expiry time (epoch ms), sent as x-amz-meta-expires-at
+ */
+const EXPIRES_AT = 'expires-at';
+
+/**
+ * Object metadata holding a lock's token
+ */
+const LOCK_TOKEN = 'lock-token';
+
+/**
+ * Prefixes for tag index and lock objects
+ */
+const TAG_PREFIX = '__tag__/';
+const LOCK_PREFIX = '__lock__/';
+
+export interface S3AdapterOptions {
+  uri?: string; // s3://bucket or s3://bucket/prefix
+  bucket?: string; // alternative to uri
+  keyPrefix?: string; // prepended to every object key, after the uri prefix
+  endpoint?: string; // S3-compatible server, e.g. 'http://localhost:9000'
+  region?: string; // default 'us-east-1'
+  forcePathStyle?: boolean; // http://host/bucket/key addressing, needed by most S3-compatible servers
+  credentials?: { accessKeyId: string; secretAccessKey: string; sessionToken?: string };
+  client?: any; // existing S3Client, left open by close()
+  clientOptions?: Record<string, any>; // extra S3Client options
+  ttl?: number; // default TTL in seconds for set() without a TTL
+  pageSize?: number; // ListObjectsV2 page size and clear() batch size, default 1000
+  serializer?: ISerializer; // encodes stored values, default type-preserving JSON
+  logger?: CacheLogger;
+}
+
+/**
+ * Adapter for S3 and S3-compatible object storage (MinIO, R2, LocalStack, ...)
+ * Each entry is one object. Expiry is kept in object metadata and checked on
+ * read, keys() lists by prefix and clear() uses DeleteObjects in batches
+ * Expired objects are skipped but not deleted; a bucket lifecycle rule on the
+ * prefix keeps storage bounded
+ * Requires the optional @aws-sdk/client-s3 package
+ */
+export class S3Adapter implements ICacheAdapter {
+  private readonly sdk: any;
+  private readonly client: any;
+  private readonly ownsClient: boolean;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly defaultTTL?: number;
+  private readonly pageSize: number;
+  private readonly serializer: ISerializer;
+  private readonly logger: CacheLogger;
+  private hits: number = 0;
+  private misses: number = 0;
+  private readonly startTime: number = Date.now();
+
+  constructor(options: S3AdapterOptions) {
+    const location = options.uri ? parseS3Uri(options.uri) : { bucket: options.bucket, prefix: '' };
+    if (!location.bucket) {
+      throw new Error('S3Adapter requires a "bucket" or "uri" option');
+    }
+    if (options.pageSize !== undefined && (options.pageSize < 1 || options.pageSize > 1000)) {
+      throw new Error('S3Adapter "pageSize" must be between 1 and 1000');
+    }
+
+    this.sdk = loadS3Sdk();
+    this.client =
+      options.client ??
+      new this.sdk.S3Client({
+        region: options.region ?? 'us-east-1',
+        endpoint: options.endpoint,
+        forcePathStyle: options.forcePathStyle,
+        credentials: options.credentials,
+        ...options.clientOptions,
+      });
+    this.ownsClient = !options.client;
+    this.bucket = location.bucket;
+    this.prefix = location.prefix + (options.keyPrefix ?? '');
+    this.defaultTTL = options.ttl;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.serializer = options.serializer ?? new JsonSerializer();
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const object = await this.send('GetObjectCommand', { Key: this.objectKey(key) });
+
+      if (isExpired(object.Metadata)) {
+        object.Body?.destroy?.();
+        this.misses++;
+        return null;
+      }
+
+      const data = Buffer.from(await object.Body.transformToByteArray());
+      this.hits++;
+      return this.serializer.deserialize<T>(data);
+    } catch (error) {
+      if (isNotFound(error)) {
+        this.misses++;
+        return null;
+      }
+      throw toCacheError('Failed to get key', error);
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    try {
+      await this.send('PutObjectCommand', {
+        Key: this.objectKey(key),
+        Body: this.serializer.serialize(value),
+        Metadata: this.expiryMetadata(ttl),
+      });
+    } catch (error) {
+      throw toCacheError('Failed to set key', error);
+    }
+  }
+
+  async delete(key: string | string[]): Promise<void> {
+    const keys = Array.isArray(key) ? key : [key];
+
+    try {
+      for await (const batch of batchKeys(keys, this.pageSize)) {
+        await this.deleteObjects(batch.map((k) => this.objectKey(k)));
+      }
+    } catch (error) {
+      throw toCacheError('Failed to delete key(s)', error);
+    }
+  }
+
+  /**
+   * Delete matching keys with DeleteObjects, pageSize keys at a time
+   * Without a pattern, deletes every object under the prefix, including
+   * tags and locks (the whole bucket if there is no prefix)
+   */
+  async clear(pattern?: string): Promise<void> {
+    try {
+      const objects = pattern
+        ? mapKeys(this.cacheKeys(pattern, this.pageSize), (key) => this.objectKey(key))
+        : this.listObjects('', this.pageSize);
+
+      for await (const batch of batchKeys(objects, this.pageSize)) {
+        await this.deleteObjects(batch);
+      }
+    } catch (error) {
+      throw toCacheError('Failed to clear cache', error);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      const head = await this.head(this.objectKey(key));
+      return head !== null && !isExpired(head.Metadata);
+    } catch (error) {
+      throw toCacheError('Failed to check key', error);
+    }
+  }
+
+  async mget<T>(keys: string[]): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+    const values = await Promise.all(keys.map((key) => this.get<T>(key)));
+
+    values.forEach((value, i) => {
+      if (value !== null) {
+        results.set(keys[i], value);
+      }
+    });
+
+    return results;
+  }
+
+  async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    entries.forEach((value, key) => {
+      promises.push(this.set(key, value, ttl));
+    });
+
+    await Promise.all(promises);
+  }
+
+  /**
+   * Keys matching a glob pattern, found by prefix listing
+   * Listings carry no metadata, so expired objects that haven't been deleted
+   * yet are included. Tag and lock objects are not
+   */
+  async keys(pattern?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const batch of this.scan(pattern)) {
+      keys.push(...batch);
+    }
+    return keys;
+  }
+
+  /**
+   * Keys matching a glob pattern in batches of at most batchSize, which is
+   * also the listing page size (default pageSize)
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const batchSize = Math.min(options.batchSize ?? this.pageSize, DEFAULT_PAGE_SIZE);
+
+    try {
+      yield* batchKeys(this.cacheKeys(pattern ?? '*', batchSize), batchSize);
+    } catch (error) {
+      throw toCacheError('Failed to scan keys', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      keys: -1, // Not available without listing all objects
+      memory: -1, // Not available without listing all objects
+      uptime: Date.now() - this.startTime,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Locks are objects created with a conditional write (If-None-Match), so the
+   * server must support conditional writes. An expired lock is taken over
+   * with If-Match on its ETag, so only one caller wins
+   */
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const lockKey = this.objectKey(LOCK_PREFIX + key);
+    const token = randomUUID();
+    const put = (condition: Record<string, string>) =>
+      this.send('PutObjectCommand', {
+        Key: lockKey,
+        Body: '',
+        Metadata: { ...this.expiryMetadata(ttl), [LOCK_TOKEN]: token },
+        ...condition,
+      });
+
+    try {
+      await put({ IfNoneMatch: '*' });
+      return token;
+    } catch (error) {
+      if (!isPreconditionFailed(error)) {
+        throw toCacheError('Failed to acquire lock', error);
+      }
+    }
+
+    try {
+      const head = await this.head(lockKey);
+      if (!head || !isExpired(head.Metadata)) {
+        return null;
+      }
+      await put({ IfMatch: head.ETag });
+      return token;
+    } catch (error) {
+      if (isPreconditionFailed(error)) {
+        return null;
+      }
+      throw toCacheError('Failed to acquire lock', error);
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    const lockKey = this.objectKey(LOCK_PREFIX + key);
+
+    try {
+      const head = await this.head(lockKey);
+      if (head?.Metadata?.[LOCK_TOKEN] === token) {
+        await this.send('DeleteObjectCommand', { Key: lockKey });
+      }
+    } catch (error) {
+      throw toCacheError('Failed to release lock', error);
+    }
+  }
+
+  /**
+   * Each tag membership is an empty object under __tag__/<tag>/, so tagging
+   * needs no read-modify-write
+   */
+  async tagKey(key: string, tags: string[], ttl?: number): Promise<void> {
+    try {
+      await Promise.all(
+        tags.map((tag) =>
+          this.send('PutObjectCommand', {
+            Key: this.objectKey(tagObjectPrefix(tag) + encodeURIComponent(key)),
+            Body: '',
+            Metadata: this.expiryMetadata(ttl),
+          }),
+        ),
+      );
+    } catch (error) {
+      throw toCacheError('Failed to tag key', error);
+    }
+  }
+
+  /**
+   * Returns every key that was tagged, whether or not it was still cached -
+   * checking would cost a request per key
+   */
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    try {
+      const keys = new Set<string>();
+
+      for (const tag of tags) {
+        const prefix = tagObjectPrefix(tag);
+        for await (const batch of batchKeys(
+          this.listObjects(prefix, this.pageSize),
+          this.pageSize,
+        )) {
+          batch.forEach((object) =>
+            keys.add(decodeURIComponent(object.slice(this.prefix.length + prefix.length))),
+          );
+          await this.deleteObjects(batch);
+        }
+      }
+
+      await this.delete(Array.from(keys));
+      return Array.from(keys);
+    } catch (error) {
+      throw toCacheError('Failed to invalidate tags', error);
+    }
+  }
+
+  /**
+   * Verify the bucket is reachable
+   */
+  async connect(): Promise<void> {
+    await this.ping();
+  }
+
+  /**
+   * Release the client's connections, unless it was provided by the caller
+   */
+  async close(): Promise<void> {
+    if (this.ownsClient) {
+      this.client.destroy();
+    }
+  }
+
+  async ping(): Promise<void> {
+    try {
+      await this.client.send(new this.sdk.HeadBucketCommand({ Bucket: this.bucket }));
+    } catch (error) {
+      throw new CacheError(
+        'Cache store is unreachable',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Object keys under prefix + subPrefix, one ListObjectsV2 page at a time
+   */
+  private async *listObjects(subPrefix: string, pageSize: number): AsyncGenerator<string> {
+    let token: string | undefined;
+
+    do {
+      const page = await this.send('ListObjectsV2Command', {
+        Prefix: this.prefix + subPrefix,
+        MaxKeys: pageSize,
+        ContinuationToken: token,
+      });
+      for (const object of page.Contents ?? []) {
+        yield object.Key as string;
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+  }
+
+  /**
+   * Unprefixed cache keys matching pattern, skipping tag and lock objects
+   * Listing starts at the pattern's literal prefix
+   */
+  private async *cacheKeys(pattern: string, pageSize: number): AsyncGenerator<string> {
+    const regex = globToRegExp(pattern);
+
+    for await (const object of this.listObjects(globPrefix(pattern), pageSize)) {
+      const key = object.slice(this.prefix.length);
+      if (!key.startsWith(TAG_PREFIX) && !key.startsWith(LOCK_PREFIX) && regex.test(key)) {
+        yield key;
+      }
+    }
+  }
+
+  /**
+   * @throws The first per-object error DeleteObjects reports
+   */
+  private async deleteObjects(objectKeys: string[]): Promise<void> {
+    if (objectKeys.length === 0) {
+      return;
+    }
+
+    const result = await this.send('DeleteObjectsCommand', {
+      Delete: { Objects: objectKeys.map((Key) => ({ Key })), Quiet: true },
+    });
+
+    // Leave the object key out - keys may hold user data
+    const failed = result.Errors?.[0];
+    if (failed) {
+      throw new Error(`DeleteObjects failed: ${failed.Code} ${failed.Message}`);
+    }
+  }
+
+  /**
+   * @returns null if the object doesn't exist
+   */
+  private async head(objectKey: string): Promise<any> {
+    try {
+      return await this.send('HeadObjectCommand', { Key: objectKey });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send an SDK command for this bucket
+   */
+  private send(command: string, input: Record<string, any>): Promise<any> {
+    return this.client.send(new this.sdk[command]({ Bucket: this.bucket, ...input }));
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix + key;
+  }
+
+  /**
+   * Expiry metadata - falls back to the default TTL, no expiry without one
+   */
+  private expiryMetadata(ttl?: number): Record<string, string> {
+    const seconds = ttl || this.defaultTTL;
+    return seconds ? { [EXPIRES_AT]: String(Date.now() + seconds * 1000) } : {};
+  }
+}
+
+/**
+ * Split s3://bucket/prefix into bucket and prefix (with a trailing / if non-empty)
+ */
+function parseS3Uri(uri: string): { bucket: string; prefix: string } {
+  const match = /^s3:\/\/([^/]+)\/?(.*)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid S3 uri "${uri}", expected s3://bucket[/prefix]`);
+  }
+
+  const prefix = match[2].replace(/\/*$/, '');
+  return { bucket: match[1], prefix: prefix ? `${prefix}/` : '' };
+}
+
+function tagObjectPrefix(tag: string): string {
+  return `${TAG_PREFIX}${encodeURIComponent(tag)}/`;
+}
+
+function isExpired(metadata?: Record<string, string>): boolean {
+  const expiresAt = Number(metadata?.[EXPIRES_AT] ?? 0);
+  return expiresAt !== 0 && expiresAt <= Date.now();
+}
+
+async function* mapKeys(
+  keys: AsyncIterable<string>,
+  fn: (key: string) => string,
+): AsyncGenerator<string> {
+  for await (const key of keys) {
+    yield fn(key);
+  }
+}
+
+function isNotFound(error: any): boolean {
+  return (
+    error?.name === 'NoSuchKey' ||
+    error?.name === 'NotFound' ||
+    error?.$metadata?.httpStatusCode === 404
+  );
+}
+
+/**
+ * A conditional write lost - 412, or 409 when a concurrent conditional write is in flight
+ */
+function isPreconditionFailed(error: any): boolean {
+  const status = error?.$metadata?.httpStatusCode;
+  return error?.name === 'PreconditionFailed' || status === 412 || status === 409;
+}
+
+/**
+ * Keep CacheErrors (e.g. serialization failures), wrap anything else as a connection error
+ */
+function toCacheError(message: string, error: unknown): CacheError {
+  return error instanceof CacheError
+    ? error
+    : new CacheError(message, CacheErrorCode.CONNECTION_ERROR, error as Error);
+}
+
+/**
+ * Load the optional @aws-sdk/client-s3 dependency
+ */
+function loadS3Sdk(): any {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('@aws-sdk/client-s3');
+  } catch (error) {
+    throw new CacheError(
+      'S3Adapter requires the "@aws-sdk/client-s3" package. Install it with: npm install @aws-sdk/client-s3',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+}
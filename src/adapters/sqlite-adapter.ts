@@ -0,0 +1,544 @@
+import { randomUUID } from 'crypto';
+import {
+  ICacheAdapter,
+  AdapterEvent,
+  CacheStats,
+  CacheError,
+  CacheErrorCode,
+  ISerializer,
+  ScanOptions,
+} from '../core/interfaces';
+import { JsonSerializer } from '../serializers/json-serializer';
+import { globPrefix, globToRegExp } from '../utils/glob';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+import { DEFAULT_SCAN_BATCH_SIZE, batchKeys } from '../utils/scan';
+
+/**
+ * Default table name
+ */
+const DEFAULT_TABLE = 'turbocache';
+
+/**
+ * Default seconds between sweeps of expired rows
+ */
+const DEFAULT_VACUUM_INTERVAL = 60;
+
+export interface SqliteAdapterOptions {
+  path?: string; // database file, e.g. './cache/turbocache.db'
+  database?: any; // existing better-sqlite3 Database, left open by close()
+  table?: string; // default 'turbocache'; tags and locks use <table>_tags and <table>_locks
+  ttl?: number; // default TTL in seconds for set() without a TTL
+  vacuumInterval?: number; // seconds between sweeps of expired rows, default 60 (0 = never)
+  serializer?: ISerializer; // encodes stored values, default type-preserving JSON
+  logger?: CacheLogger;
+}
+
+/**
+ * Prepared statements, recreated whenever the database is reopened
+ */
+interface Statements {
+  get: any;
+  has: any;
+  set: any;
+  delete: any;
+  clear: any;
+  clearTags: any;
+  count: any;
+  firstPage: any;
+  nextPage: any;
+  acquireLock: any;
+  releaseLock: any;
+  tag: any;
+  tagged: any;
+  untag: any;
+  expire: any;
+  expireReturning: any;
+  expireLocks: any;
+  pruneTags: any;
+}
+
+/**
+ * Persistent cache adapter on SQLite (better-sqlite3)
+ * Entries survive restarts, so it suits single-node services and CLI tools,
+ * or an L2 behind MemoryAdapter without running Redis. Expired rows are
+ * skipped on read and removed by a periodic sweep over an expiry index
+ * Requires the optional better-sqlite3 package unless a database is provided
+ */
+export class SqliteAdapter implements ICacheAdapter {
+  private db: any;
+  private statements!: Statements;
+  private readonly ownsDatabase: boolean;
+  private readonly path?: string;
+  private readonly table: string;
+  private readonly defaultTTL?: number;
+  private readonly vacuumInterval: number;
+  private readonly serializer: ISerializer;
+  private readonly logger: CacheLogger;
+  private readonly listeners: Set<(event: AdapterEvent) => void> = new Set();
+  private hits: number = 0;
+  private misses: number = 0;
+  private vacuumTimer: NodeJS.Timeout | null = null;
+  private readonly startTime: number = Date.now();
+
+  constructor(options: SqliteAdapterOptions) {
+    if (!options.database && !options.path) {
+      throw new Error('SqliteAdapter requires a "database" or "path" option');
+    }
+
+    const table = options.table ?? DEFAULT_TABLE;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid SQLite table name: ${table}`);
+    }
+
+    this.path = options.path;
+    this.ownsDatabase = !options.database;
+    this.table = table;
+    this.defaultTTL = options.ttl;
+    this.vacuumInterval = options.vacuumInterval ?? DEFAULT_VACUUM_INTERVAL;
+    this.serializer = options.serializer ?? new JsonSerializer();
+    this.logger = options.logger ?? defaultLogger;
+
+    this.open(options.database ?? openDatabase(this.path!));
+    this.startVacuum();
+  }
+
+  /**
+   * Reopen the database after close() and restart the vacuum timer
+   */
+  async connect(): Promise<void> {
+    if (!this.db.open && this.ownsDatabase) {
+      this.open(openDatabase(this.path!));
+    }
+    this.startVacuum();
+  }
+
+  /**
+   * Stop the vacuum timer and close the database, unless it was provided by the caller
+   */
+  async close(): Promise<void> {
+    if (this.vacuumTimer) {
+      clearInterval(this.vacuumTimer);
+      this.vacuumTimer = null;
+    }
+
+    if (!this.ownsDatabase || !this.db.open) {
+      return;
+    }
+
+    try {
+      this.db.close();
+    } catch (error) {
+      this.logger.error('Error closing SQLite database', { error });
+    }
+  }
+
+  async ping(): Promise<void> {
+    try {
+      this.db.prepare('SELECT 1').get();
+    } catch (error) {
+      throw new CacheError(
+        'Cache store is unreachable',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  onEvent(listener: (event: AdapterEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const data = this.statements.get.get(key, Date.now());
+
+      if (data === undefined) {
+        this.misses++;
+        return null;
+      }
+
+      this.hits++;
+      return this.serializer.deserialize<T>(data);
+    } catch (error) {
+      throw toCacheError('Failed to get key', error);
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    try {
+      this.statements.set.run(key, this.serializer.serialize(value), this.expiresAt(ttl));
+    } catch (error) {
+      throw toCacheError('Failed to set key', error);
+    }
+  }
+
+  async delete(key: string | string[]): Promise<void> {
+    const keys = Array.isArray(key) ? key : [key];
+
+    try {
+      this.db.transaction(() => keys.forEach((k) => this.statements.delete.run(k)))();
+    } catch (error) {
+      throw toCacheError('Failed to delete key(s)', error);
+    }
+  }
+
+  async clear(pattern?: string): Promise<void> {
+    try {
+      if (!pattern) {
+        this.db.transaction(() => {
+          this.statements.clear.run();
+          this.statements.clearTags.run();
+        })();
+        return;
+      }
+
+      for await (const batch of this.scan(pattern)) {
+        await this.delete(batch);
+      }
+    } catch (error) {
+      throw toCacheError('Failed to clear cache', error);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return this.statements.has.get(key, Date.now()) !== undefined;
+    } catch (error) {
+      throw toCacheError('Failed to check key', error);
+    }
+  }
+
+  async mget<T>(keys: string[]): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+
+    for (const key of keys) {
+      const value = await this.get<T>(key);
+      if (value !== null) {
+        results.set(key, value);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * All entries are written in one transaction
+   */
+  async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
+    const expiresAt = this.expiresAt(ttl);
+
+    try {
+      this.db.transaction(() => {
+        entries.forEach((value, key) => {
+          this.statements.set.run(key, this.serializer.serialize(value), expiresAt);
+        });
+      })();
+    } catch (error) {
+      throw toCacheError('Failed to set multiple keys', error);
+    }
+  }
+
+  async keys(pattern?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const batch of this.scan(pattern)) {
+      keys.push(...batch);
+    }
+    return keys;
+  }
+
+  /**
+   * Live keys matching pattern in key order, read a page of batchSize rows at a time
+   * Starts at the pattern's literal prefix, so 'user:*' only reads user: keys
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const batchSize = options.batchSize ?? DEFAULT_SCAN_BATCH_SIZE;
+    yield* batchKeys(this.matchingKeys(pattern, batchSize), batchSize);
+  }
+
+  /**
+   * keys includes expired rows until the next vacuum; memory is the database file size
+   */
+  async stats(): Promise<CacheStats> {
+    try {
+      const pageCount: number = this.db.pragma('page_count', { simple: true });
+      const pageSize: number = this.db.pragma('page_size', { simple: true });
+
+      return {
+        hits: this.hits,
+        misses: this.misses,
+        keys: this.statements.count.get(),
+        memory: pageCount * pageSize,
+        uptime: Date.now() - this.startTime,
+      };
+    } catch (error) {
+      throw toCacheError('Failed to get stats', error);
+    }
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Locks live in the database, so they are shared by processes using the same file
+   */
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    const token = randomUUID();
+    const now = Date.now();
+
+    try {
+      // Takes over the lock only if it is missing or expired
+      const { changes } = this.statements.acquireLock.run(key, token, now + ttl * 1000, now);
+      return changes === 1 ? token : null;
+    } catch (error) {
+      throw toCacheError('Failed to acquire lock', error);
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      this.statements.releaseLock.run(key, token);
+    } catch (error) {
+      throw toCacheError('Failed to release lock', error);
+    }
+  }
+
+  /**
+   * Tag rows are pruned by the vacuum once their entry is gone
+   */
+  async tagKey(key: string, tags: string[], _ttl?: number): Promise<void> {
+    try {
+      this.db.transaction(() => tags.forEach((tag) => this.statements.tag.run(tag, key)))();
+    } catch (error) {
+      throw toCacheError('Failed to tag key', error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    try {
+      return this.db.transaction(() => {
+        const keys = new Set<string>();
+        for (const tag of tags) {
+          this.statements.tagged.all(tag).forEach((key: string) => keys.add(key));
+          this.statements.untag.run(tag);
+        }
+
+        // Only report keys that were still cached
+        return Array.from(keys).filter((key) => this.statements.delete.run(key).changes === 1);
+      })();
+    } catch (error) {
+      throw toCacheError('Failed to invalidate tags', error);
+    }
+  }
+
+  /**
+   * Delete expired entries and locks, and tags of deleted entries
+   * @returns Number of expired entries deleted
+   */
+  async vacuum(): Promise<number> {
+    const now = Date.now();
+
+    try {
+      return this.db.transaction(() => {
+        let expired: number;
+        if (this.listeners.size > 0) {
+          const keys: string[] = this.statements.expireReturning.all(now);
+          keys.forEach((key) => this.notify({ type: 'expire', key }));
+          expired = keys.length;
+        } else {
+          expired = this.statements.expire.run(now).changes;
+        }
+
+        this.statements.expireLocks.run(now);
+        this.statements.pruneTags.run();
+        return expired;
+      })();
+    } catch (error) {
+      throw toCacheError('Failed to vacuum expired entries', error);
+    }
+  }
+
+  /**
+   * Create the schema if needed and prepare statements
+   */
+  private open(db: any): void {
+    const entries = `"${this.table}"`;
+    const tags = `"${this.table}_tags"`;
+    const locks = `"${this.table}_locks"`;
+    const live = '(expires_at = 0 OR expires_at > ?)';
+
+    try {
+      // expires_at is epoch ms, 0 = no expiry
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${entries} (
+          key TEXT PRIMARY KEY,
+          value BLOB NOT NULL,
+          expires_at INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS "${this.table}_expires_at" ON ${entries} (expires_at)
+          WHERE expires_at > 0;
+        CREATE TABLE IF NOT EXISTS ${tags} (
+          tag TEXT NOT NULL,
+          key TEXT NOT NULL,
+          PRIMARY KEY (tag, key)
+        ) WITHOUT ROWID;
+        CREATE TABLE IF NOT EXISTS ${locks} (
+          key TEXT PRIMARY KEY,
+          token TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+
+      this.statements = {
+        get: db.prepare(`SELECT value FROM ${entries} WHERE key = ? AND ${live}`).pluck(),
+        has: db.prepare(`SELECT 1 FROM ${entries} WHERE key = ? AND ${live}`).pluck(),
+        set: db.prepare(
+          `INSERT OR REPLACE INTO ${entries} (key, value, expires_at) VALUES (?, ?, ?)`,
+        ),
+        delete: db.prepare(`DELETE FROM ${entries} WHERE key = ?`),
+        clear: db.prepare(`DELETE FROM ${entries}`),
+        clearTags: db.prepare(`DELETE FROM ${tags}`),
+        count: db.prepare(`SELECT COUNT(*) FROM ${entries}`).pluck(),
+        firstPage: db
+          .prepare(`SELECT key FROM ${entries} WHERE key >= ? AND ${live} ORDER BY key LIMIT ?`)
+          .pluck(),
+        nextPage: db
+          .prepare(`SELECT key FROM ${entries} WHERE key > ? AND ${live} ORDER BY key LIMIT ?`)
+          .pluck(),
+        acquireLock: db.prepare(
+          `INSERT INTO ${locks} (key, token, expires_at) VALUES (?, ?, ?)
+           ON CONFLICT (key) DO UPDATE SET token = excluded.token, expires_at = excluded.expires_at
+           WHERE expires_at <= ?`,
+        ),
+        releaseLock: db.prepare(`DELETE FROM ${locks} WHERE key = ? AND token = ?`),
+        tag: db.prepare(`INSERT OR IGNORE INTO ${tags} (tag, key) VALUES (?, ?)`),
+        tagged: db.prepare(`SELECT key FROM ${tags} WHERE tag = ?`).pluck(),
+        untag: db.prepare(`DELETE FROM ${tags} WHERE tag = ?`),
+        expire: db.prepare(`DELETE FROM ${entries} WHERE expires_at > 0 AND expires_at <= ?`),
+        expireReturning: db
+          .prepare(`DELETE FROM ${entries} WHERE expires_at > 0 AND expires_at <= ? RETURNING key`)
+          .pluck(),
+        expireLocks: db.prepare(`DELETE FROM ${locks} WHERE expires_at <= ?`),
+        pruneTags: db.prepare(
+          `DELETE FROM ${tags} WHERE NOT EXISTS (SELECT 1 FROM ${entries} WHERE key = ${tags}.key)`,
+        ),
+      };
+    } catch (error) {
+      throw new CacheError(
+        `Failed to initialize SQLite table: ${this.table}`,
+        CacheErrorCode.ADAPTER_ERROR,
+        error as Error,
+      );
+    }
+
+    this.db = db;
+  }
+
+  /**
+   * Live keys matching pattern, reading one page of rows per query so no
+   * statement stays open between batches
+   */
+  private async *matchingKeys(
+    pattern: string | undefined,
+    pageSize: number,
+  ): AsyncGenerator<string> {
+    const regex = pattern ? globToRegExp(pattern) : null;
+    const prefix = pattern ? globPrefix(pattern) : '';
+    let last: string | null = null;
+
+    while (true) {
+      let page: string[];
+      try {
+        page =
+          last === null
+            ? this.statements.firstPage.all(prefix, Date.now(), pageSize)
+            : this.statements.nextPage.all(last, Date.now(), pageSize);
+      } catch (error) {
+        throw toCacheError('Failed to scan keys', error);
+      }
+
+      for (const key of page) {
+        // Keys sharing the prefix are contiguous - past them there is nothing left to match
+        if (!key.startsWith(prefix)) {
+          return;
+        }
+        if (!regex || regex.test(key)) {
+          yield key;
+        }
+      }
+
+      if (page.length < pageSize) {
+        return;
+      }
+      last = page[page.length - 1];
+    }
+  }
+
+  private startVacuum(): void {
+    if (this.vacuumTimer || this.vacuumInterval <= 0) {
+      return;
+    }
+
+    this.vacuumTimer = setInterval(() => {
+      this.vacuum().catch((error) => {
+        this.logger.error('Failed to vacuum SQLite cache', { error });
+      });
+    }, this.vacuumInterval * 1000);
+    // Don't keep the process alive just for vacuuming
+    this.vacuumTimer.unref();
+  }
+
+  private notify(event: AdapterEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Expiry timestamp - falls back to the default TTL, 0 (no expiry) without one
+   */
+  private expiresAt(ttl?: number): number {
+    const seconds = ttl || this.defaultTTL;
+    return seconds ? Date.now() + seconds * 1000 : 0;
+  }
+}
+
+/**
+ * Keep CacheErrors (e.g. serialization failures), wrap anything else as a connection error
+ */
+function toCacheError(message: string, error: unknown): CacheError {
+  return error instanceof CacheError
+    ? error
+    : new CacheError(message, CacheErrorCode.CONNECTION_ERROR, error as Error);
+}
+
+/**
+ * Open a database file with the optional better-sqlite3 dependency
+ * WAL lets readers in other processes continue while this one writes
+ */
+function openDatabase(path: string): any {
+  let Database: any;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    Database = require('better-sqlite3');
+  } catch (error) {
+    throw new CacheError(
+      'SqliteAdapter requires the "better-sqlite3" package. Install it with: npm install better-sqlite3',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+
+  try {
+    const db = new Database(path);
+    if (!db.memory) {
+      db.pragma('journal_mode = WAL');
+    }
+    return db;
+  } catch (error) {
+    throw new CacheError(
+      `Failed to open SQLite database: ${path}`,
+      CacheErrorCode.CONNECTION_ERROR,
+      error as Error,
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { CompressionAlgorithm } from './interfaces';
+import { EncryptionHeader } from '../utils/encryptor';
+
+/**
+ * Marker property identifying values wrapped by CacheManager
+ */
+const ENTRY_MARKER = '__turbocache__';
+
+/**
+ * Envelope stored around every value written through CacheManager
+ * Carries its own freshness window so entries can be served stale
+ * after their TTL while adapters keep them until the stale window ends
+ */
+export interface CacheEntry<T = any> {
+  [ENTRY_MARKER]: 1;
+  value: T;
+  /** Epoch ms until which the entry is fresh (0 = never goes stale) */
+  freshUntil: number;
+  /** Epoch ms until which the entry may be served stale */
+  staleUntil: number;
+  /** How long computing the value took (ms) */
+  delta?: number;
+  /** Name of the serializer that produced value */
+  serializer?: string;
+  /** Set when value holds compressed serialized data */
+  compression?: CompressionAlgorithm;
+  /** Set when value holds binary data as base64 */
+  encoding?: 'base64';
+  /** Set when value holds encrypted data */
+  encryption?: EncryptionHeader;
+}
+
+/**
+ * Wrap a value in a cache entry
+ * @param ttl - Fresh TTL in seconds (0 = no expiry)
+ * @param staleTTL - Additional seconds the entry may be served stale
+ * @param delta - How long computing the value took (ms)
+ */
+export function createCacheEntry<T>(
+  value: T,
+  ttl: number,
+  staleTTL: number = 0,
+  delta: number = 0,
+): CacheEntry<T> {
+  const now = Date.now();
+  const freshUntil = ttl ? now + ttl * 1000 : 0;
+  const staleUntil = freshUntil ? freshUntil + staleTTL * 1000 : 0;
+
+  return { [ENTRY_MARKER]: 1, value, freshUntil, staleUntil, delta };
+}
+
+/**
+ * Check if stored data is a cache entry
+ */
+export function isCacheEntry(data: unknown): data is CacheEntry {
+  return data !== null && typeof data === 'object' && (data as any)[ENTRY_MARKER] === 1;
+}
+
+/**
+ * Normalize stored data to a cache entry
+ * Raw values written without an envelope are treated as always fresh
+ */
+export function toCacheEntry<T>(data: unknown): CacheEntry<T> {
+  if (isCacheEntry(data)) {
+    return data as CacheEntry<T>;
+  }
+  return { [ENTRY_MARKER]: 1, value: data as T, freshUntil: 0, staleUntil: 0 };
+}
+
+/**
+ * Check if entry is within its fresh TTL
+ */
+export function isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.freshUntil === 0 || now < entry.freshUntil;
+}
+
+/**
+ * Check if entry is past its fresh TTL but still inside the stale window
+ */
+export function isStale(entry: CacheEntry, now: number = Date.now()): boolean {
+  return !isFresh(entry, now) && now < entry.staleUntil;
+}
+
+/**
+ * Probabilistic early expiration (XFetch)
+ * Returns true with rising probability as the entry nears the end of its
+ * fresh TTL, scaled by how long the value took to compute
+ * @param beta - Values > 1 favor earlier refresh, < 1 later
+ */
+export function shouldRefreshEarly(
+  entry: CacheEntry,
+  beta: number,
+  now: number = Date.now(),
+): boolean {
+  if (!entry.freshUntil || !entry.delta) {
+    return false;
+  }
+  return now - entry.delta * beta * Math.log(Math.random()) >= entry.freshUntil;
+}
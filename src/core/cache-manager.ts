@@ -1,10 +1,68 @@
+import { EventEmitter } from 'events';
 import {
   ICacheAdapter,
+  AdapterHealth,
   CacheConfig,
   GetOptions,
+  SetOptions,
+  ScanOptions,
   WrapOptions,
+  WrapResult,
   CacheStats,
+  ISerializer,
+  SerializerOption,
+  CacheError,
+  CacheErrorCode,
+  CacheEvents,
+  CacheEventName,
+  CacheEventListener,
 } from './interfaces';
+import {
+  CacheEntry,
+  createCacheEntry,
+  isFresh,
+  isStale,
+  shouldRefreshEarly,
+  toCacheEntry,
+} from './cache-entry';
+import { Compressor } from '../utils/compressor';
+import { Encryptor } from '../utils/encryptor';
+import { HealthProbe } from '../utils/health-probe';
+import { CacheLogger } from '../utils/logger';
+import { CacheStatsRecorder } from '../utils/stats-recorder';
+import { scanAdapter } from '../utils/scan';
+import { getCacheContext, runInternalCacheOperation } from '../utils/cache-context';
+import {
+  CacheTracer,
+  CacheSpan,
+  CacheSpanOptions,
+  setActiveSpanAttribute,
+} from '../tracing/cache-tracer';
+import { createSerializer, getBuiltInSerializer } from '../factory/serializer-factory';
+
+/**
+ * Default stampede lock TTL in seconds
+ */
+const DEFAULT_STAMPEDE_TTL = 30;
+
+/**
+ * How often stampede waiters re-check the cache (ms)
+ */
+const STAMPEDE_POLL_INTERVAL = 50;
+
+/**
+ * Name recorded for custom serializers that don't define one
+ */
+const CUSTOM_SERIALIZER_NAME = 'custom';
+
+/**
+ * Options for writing a cache entry
+ */
+interface EntryWriteOptions extends Omit<SetOptions, 'ttl'> {
+  ttl: number;
+  staleTTL?: number;
+  delta?: number; // How long computing the value took (ms), used for early refresh
+}
 
 /**
  * Main cache orchestrator - handles all caching operations
@@ -15,87 +73,225 @@ export class CacheManager {
   private readonly namespace: string;
   private readonly defaultTTL: number;
   private readonly enableMetrics: boolean;
+  private readonly inFlight: Map<string, Promise<any>>;
+  private readonly compressor: Compressor;
+  private readonly compressionEnabled: boolean;
+  private readonly serializer: ISerializer | null;
+  private readonly encryptor: Encryptor | null;
+  private readonly probe: HealthProbe;
+  private readonly tracer: CacheTracer;
+  private readonly statsRecorder: CacheStatsRecorder | null;
+  private readonly events: EventEmitter = new EventEmitter();
+  private readonly reportedErrors: WeakSet<object> = new WeakSet();
 
-  constructor(adapter: ICacheAdapter, config: CacheConfig) {
+  /**
+   * Logger configured by CacheConfig.logging, also used by the decorators
+   */
+  readonly logger: CacheLogger;
+
+  /**
+   * @param storeName - Store the manager belongs to, recorded on trace spans
+   */
+  constructor(adapter: ICacheAdapter, config: CacheConfig, storeName?: string) {
     this.adapter = adapter;
     this.namespace = config.namespace || '';
     this.defaultTTL = config.defaultTTL || 3600;
     this.enableMetrics = config.enableMetrics ?? false;
+    this.inFlight = new Map();
+    this.compressor = new Compressor(config.compression);
+    this.compressionEnabled = config.compression?.enabled ?? false;
+    this.serializer = config.serializer ? createSerializer(config.serializer) : null;
+    this.encryptor = config.encryption?.enabled ? new Encryptor(config.encryption) : null;
+    this.probe = new HealthProbe(adapter);
+    this.logger = new CacheLogger(config.logging);
+    this.statsRecorder =
+      config.stats?.enabled === false ? null : new CacheStatsRecorder(config.stats);
+    this.tracer = new CacheTracer(config.tracing, {
+      'cache.store': storeName,
+      'cache.namespace': this.namespace || undefined,
+    });
+
+    // Evictions and expirations the adapter performs on its own
+    adapter.onEvent?.(({ type, ...event }) =>
+      this.emit(type, { ...event, key: this.removeNamespace(event.key) }),
+    );
+  }
+
+  /**
+   * Listen for cache events (hit, miss, set, delete, clear, evict, expire, error)
+   * Failed operations still reject - 'error' listeners are optional
+   */
+  on<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Listen for the next occurrence of a cache event
+   */
+  once<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with on() or once()
+   */
+  off<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): this {
+    this.events.off(event, listener);
+    return this;
   }
 
   /**
    * Retrieve cached value by key
    */
-  async get<T>(key: string, _options?: GetOptions): Promise<T | null> {
-    const fullKey = this.buildKey(key);
-    return this.adapter.get<T>(fullKey);
+  async get<T>(key: string, options?: GetOptions): Promise<T | null> {
+    return this.run('get', { key }, async (span) => {
+      const entry = await this.getEntry<T>(key, options);
+      const hit = !!entry && (isFresh(entry) || (!!options?.allowStale && isStale(entry)));
+      span.setAttribute('cache.hit', hit);
+      this.recordLookup(key, hit, hit && !isFresh(entry!));
+      return hit ? entry!.value : null;
+    });
   }
 
   /**
    * Store value in cache
+   * @param ttlOrOptions - TTL in seconds, or set options
    */
-  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
-    const fullKey = this.buildKey(key);
-    const effectiveTTL = ttl ?? this.defaultTTL;
-    return this.adapter.set(fullKey, value, effectiveTTL);
+  async set<T>(key: string, value: T, ttlOrOptions?: number | SetOptions): Promise<void> {
+    const options = typeof ttlOrOptions === 'number' ? { ttl: ttlOrOptions } : ttlOrOptions;
+    const ttl = options?.ttl ?? this.defaultTTL;
+    return this.run('set', { key, attributes: { 'cache.ttl': ttl } }, () =>
+      this.setEntry(key, value, { ...options, ttl }),
+    );
   }
 
   /**
    * Delete cached value(s)
    */
   async delete(key: string | string[]): Promise<void> {
-    if (Array.isArray(key)) {
-      const fullKeys = key.map((k) => this.buildKey(k));
-      return this.adapter.delete(fullKeys);
-    }
-    const fullKey = this.buildKey(key);
-    return this.adapter.delete(fullKey);
+    return this.run('delete', { key }, async () => {
+      if (Array.isArray(key)) {
+        const fullKeys = key.map((k) => this.buildKey(k));
+        await this.adapter.delete(fullKeys);
+        key.forEach((k) => this.emit('delete', { key: k }));
+        return;
+      }
+      const fullKey = this.buildKey(key);
+      await this.adapter.delete(fullKey);
+      this.emit('delete', { key });
+    });
   }
 
   /**
    * Clear cache entries matching pattern
    */
   async clear(pattern?: string): Promise<void> {
-    const fullPattern = pattern ? this.buildKey(pattern) : undefined;
-    return this.adapter.clear(fullPattern);
+    return this.run('clear', {}, async () => {
+      if (pattern) {
+        // Delete batch by batch so the matching keys are never listed all at once
+        for await (const batch of scanAdapter(this.adapter, this.buildKey(pattern))) {
+          await this.adapter.delete(batch);
+        }
+      } else {
+        await this.adapter.clear();
+      }
+      this.emit('clear', { pattern });
+    });
+  }
+
+  /**
+   * Delete all entries tagged with any of the tags
+   * @returns Number of deleted entries
+   */
+  async invalidateTags(tags: string | string[]): Promise<number> {
+    const list = Array.isArray(tags) ? tags : [tags];
+    if (list.length === 0) {
+      return 0;
+    }
+
+    return this.run(
+      'invalidateTags',
+      { attributes: { 'cache.tag_count': list.length } },
+      async (span) => {
+        if (!this.adapter.invalidateTags) {
+          throw notSupported('tags');
+        }
+        const keys = await this.adapter.invalidateTags(list.map((tag) => this.buildKey(tag)));
+        span.setAttribute('cache.deleted_count', keys.length);
+        keys.forEach((fullKey) => this.emit('delete', { key: this.removeNamespace(fullKey) }));
+        return keys.length;
+      },
+    );
   }
 
   /**
-   * Check if key exists in cache
+   * Check if key holds a fresh value
+   * Entries inside their stale window count as missing, matching get()
    */
   async has(key: string): Promise<boolean> {
-    const fullKey = this.buildKey(key);
-    return this.adapter.has(fullKey);
+    return this.run('has', { key }, async (span) => {
+      const data = await this.adapter.get<unknown>(this.buildKey(key));
+      const found = data !== null && isFresh(toCacheEntry(data));
+      span.setAttribute('cache.hit', found);
+      return found;
+    });
   }
 
   /**
    * Get multiple values at once (batch operation)
    */
   async mget<T>(keys: string[]): Promise<Map<string, T>> {
-    const fullKeys = keys.map((k) => this.buildKey(k));
-    const results = await this.adapter.mget<T>(fullKeys);
-
-    // Convert back to original keys (remove namespace)
-    const normalized = new Map<string, T>();
-    results.forEach((value, fullKey) => {
-      const originalKey = this.removeNamespace(fullKey);
-      normalized.set(originalKey, value);
-    });
+    return this.run('mget', { key: keys }, async (span) => {
+      const fullKeys = keys.map((k) => this.buildKey(k));
+      const results = await this.adapter.mget<unknown>(fullKeys);
+
+      const entries = await Promise.all(
+        Array.from(results, async ([fullKey, data]) => ({
+          fullKey,
+          entry: await this.decodeOrDiscard<T>(fullKey, toCacheEntry<T>(data)),
+        })),
+      );
 
-    return normalized;
+      // Convert back to original keys (remove namespace) and drop expired entries
+      const normalized = new Map<string, T>();
+      entries.forEach(({ fullKey, entry }) => {
+        if (entry && isFresh(entry)) {
+          normalized.set(this.removeNamespace(fullKey), entry.value);
+        }
+      });
+
+      span.setAttribute('cache.hit_count', normalized.size);
+      keys.forEach((key) => this.recordLookup(key, normalized.has(key)));
+      return normalized;
+    });
   }
 
   /**
    * Set multiple values at once (batch operation)
    */
   async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
-    const fullEntries = new Map<string, T>();
-    entries.forEach((value, key) => {
-      fullEntries.set(this.buildKey(key), value);
-    });
-
     const effectiveTTL = ttl ?? this.defaultTTL;
-    return this.adapter.mset(fullEntries, effectiveTTL);
+    const options = { key: Array.from(entries.keys()), attributes: { 'cache.ttl': effectiveTTL } };
+
+    return this.run('mset', options, async () => {
+      const encoded = await Promise.all(
+        Array.from(entries, async ([key, value]) => {
+          const fullKey = this.buildKey(key);
+          const entry = await this.encodeEntry(fullKey, createCacheEntry(value, effectiveTTL), {});
+          return { fullKey, entry };
+        }),
+      );
+
+      const fullEntries = new Map<string, CacheEntry>();
+      encoded.forEach(({ fullKey, entry }) => {
+        fullEntries.set(fullKey, entry);
+      });
+
+      await this.adapter.mset(fullEntries, effectiveTTL);
+      entries.forEach((_value, key) => this.emit('set', { key, ttl: effectiveTTL }));
+    });
   }
 
   /**
@@ -104,56 +300,569 @@ export class CacheManager {
    * @param factory - Function to compute value if not cached
    * @param options - Cache options
    */
-  async wrap<T>(
+  async wrap<T>(key: string, factory: () => Promise<T>, options?: WrapOptions): Promise<T> {
+    const result = await this.wrapWithStatus(key, factory, options);
+    return result.value;
+  }
+
+  /**
+   * Same as wrap(), but also reports whether the value was a hit, stale or miss
+   */
+  async wrapWithStatus<T>(
     key: string,
     factory: () => Promise<T>,
     options?: WrapOptions,
+  ): Promise<WrapResult<T>> {
+    return this.run('wrap', { key }, async (span) => {
+      const result = await this.loadWithStatus(key, factory, options);
+      span.setAttribute('cache.hit', result.status !== 'miss');
+      span.setAttribute('cache.status', result.status);
+      this.recordLookup(key, result.status !== 'miss', result.status === 'stale');
+      return result;
+    });
+  }
+
+  /**
+   * Acquire a lock scoped to this manager's namespace
+   * @param key - Lock key
+   * @param ttl - Lock lifetime in seconds
+   * @returns Lock token if acquired, null if already held
+   * @throws CacheError with NOT_SUPPORTED if the store has no locks
+   */
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    return this.run('acquireLock', { key }, async (span) => {
+      if (!this.adapter.acquireLock) {
+        throw notSupported('locks');
+      }
+      const token = await this.adapter.acquireLock(this.buildKey(`lock:${key}`), ttl);
+      span.setAttribute('cache.lock_acquired', token !== null);
+      return token;
+    });
+  }
+
+  /**
+   * Release a lock acquired with acquireLock
+   */
+  async releaseLock(key: string, token: string): Promise<void> {
+    return this.run('releaseLock', { key }, async () => {
+      if (!this.adapter.releaseLock) {
+        throw notSupported('locks');
+      }
+      await this.adapter.releaseLock(this.buildKey(`lock:${key}`), token);
+    });
+  }
+
+  /**
+   * Run fn in a span using this manager's tracing settings
+   * Used by the decorators to trace whole method invocations
+   */
+  async trace<T>(
+    name: string,
+    options: CacheSpanOptions,
+    fn: (span: CacheSpan) => Promise<T>,
   ): Promise<T> {
-    // Try to get from cache
-    const cached = await this.get<T>(key);
-    if (cached !== null) {
-      return cached;
+    return this.tracer.trace(name, options, fn);
+  }
+
+  /**
+   * Get cache statistics
+   * window holds hit ratios per key prefix and decorated method, and latency
+   * percentiles per operation, since the last resetStats()
+   */
+  async stats(): Promise<CacheStats> {
+    const stats = await this.adapter.stats();
+
+    return {
+      ...stats,
+      ...(this.compressionEnabled ? { compression: this.compressor.stats() } : {}),
+      ...(this.statsRecorder ? { window: this.statsRecorder.snapshot() } : {}),
+    };
+  }
+
+  /**
+   * Start a new stats window and reset the adapter's counters
+   */
+  resetStats(): void {
+    this.statsRecorder?.reset();
+    this.adapter.resetStats?.();
+  }
+
+  /**
+   * Check the store is reachable with its ping(), or a probe key round-trip
+   * Multi-tier stores report each tier
+   */
+  async health(): Promise<AdapterHealth> {
+    return this.adapter.health ? this.adapter.health() : this.probe.check();
+  }
+
+  /**
+   * Get all keys matching pattern
+   */
+  async keys(pattern?: string): Promise<string[]> {
+    const fullPattern = pattern ? this.buildKey(pattern) : undefined;
+    return this.run('keys', {}, async (span) => {
+      const fullKeys = await this.adapter.keys(fullPattern);
+      span.setAttribute('cache.key_count', fullKeys.length);
+
+      // Remove namespace from keys
+      return fullKeys.map((key) => this.removeNamespace(key));
+    });
+  }
+
+  /**
+   * Iterate keys matching pattern in batches, without loading them all at once
+   * Keys added or removed during the scan may or may not be returned
+   */
+  async *scan(pattern?: string, options: ScanOptions = {}): AsyncIterable<string[]> {
+    const fullPattern = pattern ? this.buildKey(pattern) : undefined;
+    for await (const batch of scanAdapter(this.adapter, fullPattern, options)) {
+      yield batch.map((key) => this.removeNamespace(key));
+    }
+  }
+
+  /**
+   * Run an operation in a trace span, reporting failures as 'error' events
+   * @param operation - Method name, also used for the span name (e.g. cache.invalidate_tags)
+   */
+  private run<T>(
+    operation: string,
+    options: CacheSpanOptions,
+    fn: (span: CacheSpan) => Promise<T>,
+  ): Promise<T> {
+    const spanName = `cache.${operation.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)}`;
+    const key = typeof options.key === 'string' ? options.key : undefined;
+
+    return this.tracer.trace(spanName, options, async (span) => {
+      const start = performance.now();
+      try {
+        return await fn(span);
+      } catch (error) {
+        this.reportError(operation, key, error);
+        throw error;
+      } finally {
+        this.statsRecorder?.recordLatency(operation, performance.now() - start);
+      }
+    });
+  }
+
+  /**
+   * Record a hit or miss in the stats window and emit the matching event
+   * Lookups made by decorated methods are attributed to the method
+   */
+  private recordLookup(key: string, hit: boolean, stale: boolean = false): void {
+    this.statsRecorder?.recordLookup(key, hit, getCacheContext()?.method);
+
+    if (hit) {
+      this.emit('hit', { key, stale });
+    } else {
+      this.emit('miss', { key });
+    }
+  }
+
+  /**
+   * Emit a cache event - listener failures are logged, not thrown
+   */
+  private emit<E extends CacheEventName>(event: E, payload: CacheEvents[E]): void {
+    if (this.events.listenerCount(event) === 0) {
+      return;
     }
 
     try {
-      // Execute factory function
-      const value = await factory();
+      this.events.emit(event, payload);
+    } catch (error) {
+      this.logger.error('Cache event listener failed', { event, error });
+    }
+  }
 
-      // Check condition if provided
-      const shouldCache = !options?.condition || options.condition(value);
+  /**
+   * Emit an 'error' event once per failure
+   * Nested operations (e.g. acquireLock inside wrap) see the same error
+   */
+  private reportError(operation: string, key: string | undefined, error: unknown): void {
+    if (error instanceof Object) {
+      if (this.reportedErrors.has(error)) {
+        return;
+      }
+      this.reportedErrors.add(error);
+    }
+    this.emit('error', { operation, key, error: error as Error });
+  }
+
+  /**
+   * Read the entry for a key
+   * @returns null if missing or past its stale window
+   */
+  private async getEntry<T>(key: string, options?: GetOptions): Promise<CacheEntry<T> | null> {
+    const fullKey = this.buildKey(key);
+    const data = await this.adapter.get<unknown>(fullKey);
+    if (data === null) {
+      return null;
+    }
 
-      if (shouldCache) {
-        await this.set(key, value, options?.ttl);
+    const entry = toCacheEntry<T>(data);
+    if (!isFresh(entry) && !isStale(entry)) {
+      return null;
+    }
+    recordValueSize(entry.value);
+    return this.decodeOrDiscard(fullKey, entry, options);
+  }
+
+  /**
+   * Decode an entry read from the adapter
+   * Entries that fail to decrypt (written with a retired key, or corrupt) are
+   * deleted and treated as a miss, so they get recomputed
+   * @returns null if the entry was discarded
+   */
+  private async decodeOrDiscard<T>(
+    fullKey: string,
+    entry: CacheEntry,
+    options?: GetOptions,
+  ): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.decodeEntry<T>(fullKey, entry, options);
+    } catch (error) {
+      if (!(error instanceof CacheError) || error.code !== CacheErrorCode.DECRYPTION_ERROR) {
+        throw error;
       }
 
-      return value;
+      const key = this.removeNamespace(fullKey);
+      this.logger.warn('Discarding cache entry that failed to decrypt', { key, error });
+      await this.adapter.delete(fullKey).catch((err) => {
+        this.logger.error('Failed to delete undecryptable cache entry', { key, error: err });
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Fresh value for a key, without recording a lookup or adapter metrics
+   * Used for internal re-checks, e.g. while waiting on a stampede lock
+   */
+  private async getFresh<T>(key: string, options?: GetOptions): Promise<T | null> {
+    const entry = await runInternalCacheOperation(() => this.getEntry<T>(key, options));
+    return entry && isFresh(entry) ? entry.value : null;
+  }
+
+  /**
+   * Write a value wrapped in a cache entry
+   * The adapter keeps it for ttl + staleTTL so it can be served stale
+   */
+  private async setEntry<T>(key: string, value: T, options: EntryWriteOptions): Promise<void> {
+    const { ttl, staleTTL = 0, delta = 0, tags } = options;
+    const tagged = !!tags && tags.length > 0;
+    if (tagged && !this.adapter.tagKey) {
+      // Refuse the write rather than cache an entry invalidateTags() can't reach
+      throw notSupported('tags');
+    }
+
+    const fullKey = this.buildKey(key);
+    const entry = await this.encodeEntry(
+      fullKey,
+      createCacheEntry(value, ttl, staleTTL, delta),
+      options,
+    );
+    const storeTTL = ttl && ttl + staleTTL;
+    recordValueSize(entry.value);
+    await this.adapter.set(fullKey, entry, storeTTL);
+    this.emit('set', { key, ttl });
+
+    if (tagged) {
+      await this.adapter.tagKey!(
+        fullKey,
+        tags.map((tag) => this.buildKey(tag)),
+        storeTTL,
+      );
+    }
+  }
+
+  /**
+   * Serialize entry value, compress it if above the compression threshold
+   * and encrypt it when encryption is enabled
+   * Without a serializer, values are stored as-is unless they get compressed or encrypted
+   * serialize: false skips the serializer and compression, but never encryption
+   * @param fullKey - Namespaced key, authenticated as part of the ciphertext
+   */
+  private async encodeEntry<T>(
+    fullKey: string,
+    entry: CacheEntry<T>,
+    options: SetOptions,
+  ): Promise<CacheEntry> {
+    const encrypt = !!this.encryptor;
+    const raw = options.serialize === false;
+    if (raw && !encrypt) {
+      return entry;
+    }
+
+    const serializer = raw
+      ? null
+      : options.serializer
+        ? createSerializer(options.serializer)
+        : this.serializer;
+    if (!serializer && !this.compressionEnabled && !encrypt) {
+      return entry;
+    }
+
+    // Compression and encryption need bytes - fall back to the type-preserving JSON serializer
+    const codec = serializer ?? createSerializer('json');
+    const name = codec.name ?? CUSTOM_SERIALIZER_NAME;
+    const payload = codec.serialize(entry.value);
+    const binary = Buffer.isBuffer(payload);
+
+    const compressed = raw
+      ? null
+      : await this.compressor.compress(binary ? payload : Buffer.from(payload));
+    const compression = compressed ? { compression: this.compressor.activeAlgorithm } : {};
+
+    if (encrypt) {
+      const plaintext = compressed ?? (binary ? payload : Buffer.from(payload));
+      const { data, header } = this.encryptor!.encrypt(plaintext, fullKey);
+      return {
+        ...entry,
+        value: data.toString('base64'),
+        serializer: name,
+        ...compression,
+        encoding: 'base64',
+        encryption: header,
+      };
+    }
+
+    if (compressed) {
+      return {
+        ...entry,
+        value: compressed.toString('base64'),
+        serializer: name,
+        ...compression,
+        encoding: 'base64',
+      };
+    }
+
+    if (!serializer) {
+      return entry;
+    }
+
+    return binary
+      ? { ...entry, value: payload.toString('base64'), serializer: name, encoding: 'base64' }
+      : { ...entry, value: payload, serializer: name };
+  }
+
+  /**
+   * Decrypt, decompress and deserialize entry value
+   * Entries stored as-is are returned unchanged
+   * @param fullKey - Namespaced key the entry was read from
+   */
+  private async decodeEntry<T>(
+    fullKey: string,
+    entry: CacheEntry,
+    options?: GetOptions,
+  ): Promise<CacheEntry<T>> {
+    const encoded = entry.serializer || entry.compression || entry.encryption;
+    if (!encoded || options?.deserialize === false) {
+      return entry;
+    }
+
+    // Compressed and encrypted entries are always base64
+    let data: string | Buffer =
+      entry.encoding === 'base64' || entry.compression
+        ? Buffer.from(entry.value, 'base64')
+        : entry.value;
+
+    if (entry.encryption) {
+      if (!this.encryptor) {
+        throw new CacheError(
+          'Entry is encrypted but no encryption keys are configured',
+          CacheErrorCode.DECRYPTION_ERROR,
+        );
+      }
+      data = this.encryptor.decrypt(data as Buffer, entry.encryption, fullKey);
+    }
+
+    if (entry.compression) {
+      data = await this.compressor.decompress(data as Buffer, entry.compression);
+    }
+
+    // Entries compressed before serializers existed hold plain JSON
+    const codec = this.findSerializer(entry.serializer ?? 'json', options?.serializer);
+    const {
+      serializer: _serializer,
+      compression: _compression,
+      encoding: _encoding,
+      encryption: _encryption,
+      ...rest
+    } = entry;
+    return { ...rest, value: codec.deserialize<T>(data) };
+  }
+
+  /**
+   * Find the serializer an entry was written with
+   * Prefers the per-call serializer, then the store serializer, then built-ins
+   */
+  private findSerializer(name: string, override?: SerializerOption): ISerializer {
+    const candidates = [override ? createSerializer(override) : null, this.serializer];
+    for (const candidate of candidates) {
+      if (candidate && (candidate.name ?? CUSTOM_SERIALIZER_NAME) === name) {
+        return candidate;
+      }
+    }
+
+    const builtIn = getBuiltInSerializer(name);
+    if (!builtIn) {
+      throw new CacheError(
+        `No serializer available for entries written with "${name}"`,
+        CacheErrorCode.SERIALIZATION_ERROR,
+      );
+    }
+    return builtIn;
+  }
+
+  /**
+   * Serve a fresh or stale entry, or compute the value
+   */
+  private async loadWithStatus<T>(
+    key: string,
+    factory: () => Promise<T>,
+    options?: WrapOptions,
+  ): Promise<WrapResult<T>> {
+    // Try to get from cache
+    const entry = await this.getEntry<T>(key, { serializer: options?.serializer });
+    if (entry && isFresh(entry)) {
+      if (!options?.earlyRefresh || !shouldRefreshEarly(entry, options.earlyRefreshBeta ?? 1)) {
+        return { value: entry.value, status: 'hit' };
+      }
+
+      // Probabilistic early refresh - no stampede lock needed since callers
+      // are already spread out; keep the fresh value if recomputation fails
+      try {
+        const value = await this.coalesce(key, () => this.compute(key, factory, options));
+        return { value, status: 'miss' };
+      } catch (err) {
+        this.logger.error('Failed to refresh cache entry early', { key, error: err });
+        this.reportError('wrap', key, err);
+        return { value: entry.value, status: 'hit' };
+      }
+    }
+
+    // Stores without locks still coalesce concurrent misses in this process
+    const load = () =>
+      options?.stampedeLock && this.adapter.acquireLock
+        ? this.computeWithLock(key, factory, options)
+        : this.compute(key, factory, options);
+
+    // Serve stale value immediately and refresh in the background
+    // Background refreshes are always coalesced
+    if (entry && isStale(entry)) {
+      this.coalesce(key, load).catch((err) => {
+        this.logger.error('Failed to revalidate stale cache entry', { key, error: err });
+        this.reportError('wrap', key, err);
+      });
+      return { value: entry.value, status: 'stale' };
+    }
+
+    try {
+      const value = options?.coalesce === false ? await load() : await this.coalesce(key, load);
+      return { value, status: 'miss' };
     } catch (error) {
       // Handle fallback
       if (options?.fallback !== undefined) {
-        return typeof options.fallback === 'function'
-          ? options.fallback()
-          : options.fallback;
+        const value =
+          typeof options.fallback === 'function' ? options.fallback() : options.fallback;
+        return { value, status: 'miss' };
       }
       throw error;
     }
   }
 
   /**
-   * Get cache statistics
+   * Share a single pending load between concurrent callers for the same key
+   * The result or rejection is delivered to every waiter
    */
-  async stats(): Promise<CacheStats> {
-    return this.adapter.stats();
+  private coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const fullKey = this.buildKey(key);
+    const pending = this.inFlight.get(fullKey);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = load().finally(() => {
+      this.inFlight.delete(fullKey);
+    });
+    this.inFlight.set(fullKey, promise);
+    return promise;
   }
 
   /**
-   * Get all keys matching pattern
+   * Execute factory and store the result if it passes the condition
    */
-  async keys(pattern?: string): Promise<string[]> {
-    const fullPattern = pattern ? this.buildKey(pattern) : undefined;
-    const fullKeys = await this.adapter.keys(fullPattern);
+  private async compute<T>(
+    key: string,
+    factory: () => Promise<T>,
+    options?: WrapOptions,
+  ): Promise<T> {
+    const start = Date.now();
+    const value = await factory();
+    const delta = Date.now() - start;
+
+    // Check condition if provided
+    const shouldCache = !options?.condition || options.condition(value);
+
+    // A failed write only costs a later miss - still return the computed value
+    if (shouldCache) {
+      try {
+        await this.setEntry(key, value, {
+          ...options,
+          ttl: options?.ttl ?? this.defaultTTL,
+          delta,
+        });
+      } catch (err) {
+        this.logger.error('Failed to cache computed value', { key, error: err });
+        this.reportError('wrap', key, err);
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Execute factory under a stampede lock
+   * The lock holder recomputes the value; other callers poll the cache until
+   * the value appears, and recompute themselves once stampedeTTL has elapsed
+   */
+  private async computeWithLock<T>(
+    key: string,
+    factory: () => Promise<T>,
+    options: WrapOptions,
+  ): Promise<T> {
+    const lockTTL = options.stampedeTTL ?? DEFAULT_STAMPEDE_TTL;
+    const deadline = Date.now() + lockTTL * 1000;
+
+    while (Date.now() < deadline) {
+      const token = await this.acquireLock(key, lockTTL);
+
+      if (token) {
+        try {
+          // Another caller may have filled the cache while we were waiting
+          const cached = await this.getFresh<T>(key, { serializer: options.serializer });
+          if (cached !== null) {
+            return cached;
+          }
+          return await this.compute(key, factory, options);
+        } finally {
+          // Lock expires on its own if release fails
+          await this.releaseLock(key, token).catch((err) => {
+            this.logger.error('Failed to release stampede lock', { key, error: err });
+          });
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, STAMPEDE_POLL_INTERVAL));
+
+      const cached = await this.getFresh<T>(key, { serializer: options.serializer });
+      if (cached !== null) {
+        return cached;
+      }
+    }
 
-    // Remove namespace from keys
-    return fullKeys.map((key) => this.removeNamespace(key));
+    // Lock holder took too long - stop waiting and compute directly
+    return this.compute(key, factory, options);
   }
 
   /**
@@ -174,3 +883,22 @@ export class CacheManager {
     return fullKey.startsWith(prefix) ? fullKey.slice(prefix.length) : fullKey;
   }
 }
+
+function notSupported(feature: string): CacheError {
+  return new CacheError(
+    `The cache store does not support ${feature}`,
+    CacheErrorCode.NOT_SUPPORTED,
+  );
+}
+
+/**
+ * Record the stored payload size on the active span
+ * Live values kept as-is by memory stores have no byte size
+ */
+function recordValueSize(value: unknown): void {
+  if (typeof value === 'string') {
+    setActiveSpanAttribute('cache.value_size', Buffer.byteLength(value));
+  } else if (Buffer.isBuffer(value)) {
+    setActiveSpanAttribute('cache.value_size', value.length);
+  }
+}
@@ -23,6 +23,7 @@ export interface ICacheAdapter {
 
   /**
    * Clear all keys or keys matching pattern
+   * Patterns are globs: `*`, `?`, `[abc]` (see globToRegExp)
    */
   clear(pattern?: string): Promise<void>;
 
@@ -46,12 +47,110 @@ export interface ICacheAdapter {
    */
   keys(pattern?: string): Promise<string[]>;
 
+  /**
+   * Iterate keys matching pattern in batches of at most batchSize keys
+   * Keys added or removed during the scan may or may not be returned
+   * CacheManager falls back to keys() when this is not implemented
+   */
+  scan?(pattern?: string, options?: ScanOptions): AsyncIterable<string[]>;
+
   /**
    * Get cache statistics
    */
   stats(): Promise<CacheStats>;
+
+  /**
+   * Try to acquire an exclusive lock
+   * CacheManager skips stampede locking when this is not implemented
+   * @param key - Lock key
+   * @param ttl - Lock lifetime in seconds (lock auto-expires to prevent deadlocks)
+   * @returns Lock token if acquired, null if the lock is already held
+   */
+  acquireLock?(key: string, ttl: number): Promise<string | null>;
+
+  /**
+   * Release a lock acquired with acquireLock
+   * No-op if the lock has expired or is held by another token
+   */
+  releaseLock?(key: string, token: string): Promise<void>;
+
+  /**
+   * Associate a key with tags so it can be invalidated by tag
+   * CacheManager rejects tagged writes when this is not implemented
+   * @param ttl - Entry lifetime in seconds; the tag index lives at least as long
+   */
+  tagKey?(key: string, tags: string[], ttl?: number): Promise<void>;
+
+  /**
+   * Delete all keys associated with any of the tags, along with the tag index
+   * @returns Deleted keys
+   */
+  invalidateTags?(tags: string[]): Promise<string[]>;
+
+  /**
+   * Establish the connection / start background work
+   * Safe to call more than once
+   */
+  connect?(): Promise<void>;
+
+  /**
+   * Release connections and timers so the process can exit
+   */
+  close?(): Promise<void>;
+
+  /**
+   * Check the backend is reachable
+   * @throws CacheError with CONNECTION_ERROR if it is not
+   */
+  ping?(): Promise<void>;
+
+  /**
+   * Report health, e.g. per tier for composite adapters
+   * CacheManager probes the adapter itself when this is not implemented
+   */
+  health?(): Promise<AdapterHealth>;
+
+  /**
+   * Reset hit/miss/eviction counters (CacheManager.resetStats)
+   */
+  resetStats?(): void;
+
+  /**
+   * Listen for entries the adapter removes on its own (evictions and expirations)
+   */
+  onEvent?(listener: (event: AdapterEvent) => void): void;
+}
+
+/**
+ * Entry removed by an adapter without being asked to
+ * - evict: removed to stay within capacity
+ * - expire: removed after its TTL passed
+ */
+export interface AdapterEvent {
+  type: 'evict' | 'expire';
+  key: string;
+  tier?: 'l1' | 'l2'; // set by multi-tier adapters
 }
 
+/**
+ * Events emitted by CacheManager, keyed by event name
+ * Keys are reported without the namespace
+ */
+export interface CacheEvents {
+  hit: { key: string; stale: boolean };
+  miss: { key: string };
+  set: { key: string; ttl: number };
+  delete: { key: string };
+  clear: { pattern?: string };
+  evict: Omit<AdapterEvent, 'type'>;
+  expire: Omit<AdapterEvent, 'type'>;
+  error: { operation: string; key?: string; error: Error };
+}
+
+export type CacheEventName = keyof CacheEvents;
+
+export type CacheEventListener<E extends CacheEventName> = (event: CacheEvents[E]) => void;
+
 /**
  * Cache statistics interface
  */
@@ -61,6 +160,81 @@ export interface CacheStats {
   keys: number;
   memory: number;
   uptime: number;
+  evictions?: number; // entries evicted to stay within capacity (memory stores)
+  tierHits?: { l1: number; l2: number }; // multi-tier: hits served by each tier
+  compression?: CompressionStats;
+  window?: StatsWindow; // CacheManager only
+}
+
+/**
+ * Statistics recorded by CacheManager since the window started or was reset
+ */
+export interface StatsWindow {
+  since: number; // window start timestamp
+  lookups: HitRatioStats;
+  byPrefix: Record<string, HitRatioStats>; // key up to the first separator
+  byMethod: Record<string, HitRatioStats>; // decorated method, e.g. 'UserService.getUser'
+  latency: Record<string, LatencyStats>; // per operation (get, set, wrap, ...)
+}
+
+export interface HitRatioStats {
+  hits: number; // stale hits included
+  misses: number;
+  hitRatio: number; // 0-1
+}
+
+/**
+ * Operation latency in ms (percentiles from a uniform sample of the window)
+ */
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Health of a store or tier
+ * - up: reachable
+ * - degraded: serving, but a tier is unreachable (e.g. L2 down, L1 still serving)
+ * - down: unreachable
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+/**
+ * Result of a health check on an adapter
+ */
+export interface AdapterHealth {
+  status: HealthStatus;
+  reachable: boolean;
+  latency: number; // ms for ping(), or the probe key round-trip
+  lastError?: string; // most recent probe failure, kept after recovery
+  lastErrorAt?: number; // timestamp of lastError
+  tiers?: Record<string, AdapterHealth>; // multi-tier: l1 and l2
+}
+
+/**
+ * Health of all registered stores
+ */
+export interface CacheHealth {
+  status: HealthStatus; // worst store status
+  stores: Record<string, AdapterHealth>;
+}
+
+/**
+ * Compression statistics (reported when compression is enabled)
+ */
+export interface CompressionStats {
+  algorithm: CompressionAlgorithm;
+  compressed: number; // values stored compressed
+  skipped: number; // values below threshold or not worth compressing
+  bytesIn: number; // uncompressed bytes of compressed values
+  bytesOut: number; // compressed bytes
+  ratio: number; // bytesOut / bytesIn
+  compressTime: number; // ms
+  decompressTime: number; // ms
 }
 
 /**
@@ -71,8 +245,13 @@ export interface CacheConfig {
   namespace?: string;
   defaultTTL?: number;
   enableMetrics?: boolean;
+  metrics?: MetricsConfig; // Prometheus options, used when enableMetrics is true
+  tracing?: TracingConfig;
+  stats?: StatsConfig;
   compression?: CompressionConfig;
+  encryption?: EncryptionConfig;
   logging?: LoggingConfig;
+  serializer?: SerializerOption;
 }
 
 /**
@@ -80,45 +259,131 @@ export interface CacheConfig {
  */
 export interface StoreConfig {
   name: string;
-  type: 'redis' | 'memory' | 'mongodb' | 'postgresql' | 'multi-tier';
+  type: 'redis' | 'memory' | 'mongodb' | 'postgresql' | 'sqlite' | 'fs' | 's3' | 'multi-tier';
   primary?: StorageBackend;
   secondary?: StorageBackend;
   ttl?: number;
+  serializer?: SerializerOption; // overrides CacheConfig.serializer
+  invalidation?: InvalidationConfig; // multi-tier only
 }
 
 /**
  * Storage backend configuration
  */
 export interface StorageBackend {
-  type: 'redis' | 'memory' | 'mongodb' | 'postgresql' | 's3';
+  type: 'redis' | 'memory' | 'mongodb' | 'postgresql' | 'sqlite' | 'fs' | 's3';
   uri?: string;
   options?: Record<string, any>;
   ttl?: number;
 }
 
+/**
+ * Cross-instance L1 invalidation for multi-tier stores
+ */
+export interface InvalidationConfig {
+  type: 'redis' | 'local';
+  uri?: string; // redis only, defaults to the secondary backend URI
+  channel?: string;
+}
+
+/**
+ * Prometheus metrics configuration (requires the optional prom-client package)
+ */
+export interface MetricsConfig {
+  registry?: any; // prom-client Registry, defaults to prom-client's global registry
+  prefix?: string; // metric name prefix, default 'turbocache_'
+  buckets?: number[]; // operation latency histogram buckets in seconds
+}
+
+/**
+ * Per-prefix, per-method and latency statistics (CacheStats.window)
+ */
+export interface StatsConfig {
+  enabled?: boolean; // default true
+  prefixSeparator?: string; // default ':'
+  maxGroups?: number; // prefixes/methods tracked separately before grouping as (other), default 1000
+  latencySamples?: number; // latency samples kept per operation, default 1024
+}
+
+/**
+ * OpenTelemetry tracing configuration
+ * Spans are recorded when the optional @opentelemetry/api package is installed
+ */
+export interface TracingConfig {
+  enabled?: boolean; // default true
+  redactKeys?: boolean | ((key: string) => string); // true records a hash of the key
+}
+
 /**
  * Compression configuration
  */
 export interface CompressionConfig {
   enabled: boolean;
   threshold?: number; // bytes
-  algorithm?: 'gzip' | 'brotli' | 'lz4';
+  algorithm?: CompressionAlgorithm;
+}
+
+/**
+ * Supported compression algorithms (lz4 requires the optional lz4js package)
+ */
+export type CompressionAlgorithm = 'gzip' | 'brotli' | 'lz4';
+
+/**
+ * Encryption configuration (AES-256-GCM)
+ */
+export interface EncryptionConfig {
+  enabled: boolean;
+  keys: Record<string, string | Buffer>; // key ID -> 32-byte key (Buffer or base64)
+  activeKeyId?: string; // key used for writes, defaults to the first key
 }
 
 /**
  * Logging configuration
  */
 export interface LoggingConfig {
-  level: 'debug' | 'info' | 'warn' | 'error';
-  includeKeys?: boolean;
-  format?: 'json' | 'text';
+  level?: LogLevel; // default 'warn'
+  includeKeys?: boolean; // include cache keys in log fields, default false
+  format?: 'json' | 'text'; // default 'text'
+  logger?: ILogger; // destination, defaults to console (the NestJS module uses Nest's Logger)
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Log destination - console and NestJS LoggerService both satisfy it
+ */
+export interface ILogger {
+  log(message: any, ...optionalParams: any[]): any;
+  error(message: any, ...optionalParams: any[]): any;
+  warn(message: any, ...optionalParams: any[]): any;
+  debug?(message: any, ...optionalParams: any[]): any;
 }
 
 /**
  * Options for get operation
  */
 export interface GetOptions {
+  /**
+   * Set to false to return the stored payload without deserializing it
+   * @default true
+   */
   deserialize?: boolean;
+  /**
+   * Serializer for entries written with a custom serializer
+   */
+  serializer?: SerializerOption;
+  /**
+   * Return entries that are past their TTL but inside their stale window
+   * @default false
+   */
+  allowStale?: boolean;
+}
+
+/**
+ * Options for scan operation
+ */
+export interface ScanOptions {
+  batchSize?: number; // keys per batch, default 100
 }
 
 /**
@@ -126,7 +391,20 @@ export interface GetOptions {
  */
 export interface SetOptions {
   ttl?: number;
+  /**
+   * Set to false to store the value as-is, skipping serializer and compression
+   * Values are still encrypted when encryption is enabled
+   * @default true
+   */
   serialize?: boolean;
+  /**
+   * Serializer for this entry (overrides the store serializer)
+   */
+  serializer?: SerializerOption;
+  /**
+   * Tags for invalidating this entry with invalidateTags()
+   */
+  tags?: string[];
 }
 
 /**
@@ -135,16 +413,107 @@ export interface SetOptions {
 export interface WrapOptions extends SetOptions {
   condition?: (value: any) => boolean;
   fallback?: any | (() => any);
+  /**
+   * Seconds past the TTL during which a stale value is served immediately
+   * while the factory refreshes it in the background
+   */
+  staleTTL?: number;
+  /**
+   * Probabilistically recompute entries before they expire (XFetch),
+   * weighted by how long the last computation took
+   * @default false
+   */
+  earlyRefresh?: boolean;
+  /**
+   * XFetch beta - values > 1 refresh earlier, < 1 later
+   * @default 1
+   */
+  earlyRefreshBeta?: number;
+  /**
+   * Share one pending factory call between concurrent misses for the same key
+   * @default true
+   */
+  coalesce?: boolean;
+  /**
+   * Only one caller recomputes a missing key; others wait for its result
+   */
+  stampedeLock?: boolean;
+  /**
+   * Stampede lock TTL in seconds (also the max time waiters wait for the result)
+   */
+  stampedeTTL?: number;
+}
+
+/**
+ * How a wrapped value was obtained
+ * - hit: fresh value from cache
+ * - stale: stale value from cache, refreshed in the background
+ * - miss: value computed by the factory (or fallback)
+ */
+export type CacheLookupStatus = 'hit' | 'stale' | 'miss';
+
+/**
+ * Result of wrapWithStatus
+ */
+export interface WrapResult<T> {
+  value: T;
+  status: CacheLookupStatus;
 }
 
 /**
  * Serializer interface
  */
 export interface ISerializer {
+  /**
+   * Recorded on each entry so it can be decoded by the same serializer
+   */
+  readonly name?: string;
   serialize(value: any): string | Buffer;
   deserialize<T>(data: string | Buffer): T;
 }
 
+/**
+ * Built-in serializers
+ * - json: JSON preserving Date, Map, Set, BigInt, Buffer and undefined
+ * - msgpack: compact binary MessagePack encoding of the same types
+ */
+export type SerializerName = 'json' | 'msgpack';
+
+/**
+ * Built-in serializer name or custom serializer
+ */
+export type SerializerOption = SerializerName | ISerializer;
+
+/**
+ * L1 invalidation broadcast to peer instances
+ */
+export interface InvalidationMessage {
+  origin: string; // ID of the publishing instance
+  type: 'delete' | 'clear' | 'set';
+  keys?: string[]; // delete and set
+  pattern?: string; // clear, omitted to clear everything
+}
+
+/**
+ * Transport for L1 invalidation messages between instances
+ */
+export interface IInvalidationBus {
+  /**
+   * Broadcast a message to all subscribers, including this instance
+   */
+  publish(message: InvalidationMessage): Promise<void>;
+
+  /**
+   * Receive messages published by any instance
+   */
+  subscribe(handler: (message: InvalidationMessage) => void): Promise<void>;
+
+  /**
+   * Stop receiving messages and release connections
+   */
+  close(): Promise<void>;
+}
+
 /**
  * Key generator interface
  */
@@ -162,6 +531,8 @@ export enum CacheErrorCode {
   KEY_TOO_LONG = 'KEY_TOO_LONG',
   VALUE_TOO_LARGE = 'VALUE_TOO_LARGE',
   ADAPTER_ERROR = 'ADAPTER_ERROR',
+  DECRYPTION_ERROR = 'DECRYPTION_ERROR',
+  NOT_SUPPORTED = 'NOT_SUPPORTED', // the store can't perform the operation
 }
 
 /**
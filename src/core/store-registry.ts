@@ -0,0 +1,123 @@
+import { CacheHealth, ICacheAdapter } from './interfaces';
+import { CacheManager } from './cache-manager';
+import { worstHealthStatus } from '../utils/health-probe';
+
+/**
+ * Name used to refer to the default (first registered) store
+ */
+export const DEFAULT_STORE_NAME = 'default';
+
+/**
+ * A configured store: its adapter and the manager wrapping it
+ */
+export interface CacheStore {
+  name: string;
+  adapter: ICacheAdapter;
+  manager: CacheManager;
+}
+
+/**
+ * Registry of named cache stores
+ * The first registered store is the default store
+ */
+export class CacheStoreRegistry {
+  private readonly stores: Map<string, CacheStore> = new Map();
+  private defaultStore: CacheStore | null = null;
+
+  /**
+   * Register a store
+   */
+  register(name: string, adapter: ICacheAdapter, manager: CacheManager): void {
+    if (this.stores.has(name)) {
+      throw new Error(`Cache store "${name}" is already registered`);
+    }
+
+    const store: CacheStore = { name, adapter, manager };
+    this.stores.set(name, store);
+
+    if (!this.defaultStore) {
+      this.defaultStore = store;
+    }
+  }
+
+  /**
+   * Get cache manager for a store
+   * @param name - Store name; omitted or 'default' resolves to the default store
+   */
+  get(name?: string): CacheManager {
+    return this.getStore(name).manager;
+  }
+
+  /**
+   * Get adapter for a store
+   */
+  getAdapter(name?: string): ICacheAdapter {
+    return this.getStore(name).adapter;
+  }
+
+  /**
+   * Check if a store is registered
+   */
+  has(name: string): boolean {
+    return this.stores.has(name) || (name === DEFAULT_STORE_NAME && this.defaultStore !== null);
+  }
+
+  /**
+   * Names of all registered stores
+   */
+  names(): string[] {
+    return Array.from(this.stores.keys());
+  }
+
+  /**
+   * All registered stores in registration order
+   */
+  all(): CacheStore[] {
+    return Array.from(this.stores.values());
+  }
+
+  /**
+   * Connect all store adapters
+   */
+  async connect(): Promise<void> {
+    await Promise.all(this.all().map((store) => store.adapter.connect?.()));
+  }
+
+  /**
+   * Close all store adapters
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.all().map((store) => store.adapter.close?.()));
+  }
+
+  /**
+   * Check health of all stores
+   * Overall status is the worst store status
+   */
+  async health(): Promise<CacheHealth> {
+    const stores = this.all();
+    const results = await Promise.all(stores.map((store) => store.manager.health()));
+
+    return {
+      status: worstHealthStatus(results.map((result) => result.status)),
+      stores: Object.fromEntries(stores.map((store, i) => [store.name, results[i]])),
+    };
+  }
+
+  private getStore(name?: string): CacheStore {
+    const store =
+      name === undefined || (name === DEFAULT_STORE_NAME && !this.stores.has(name))
+        ? this.defaultStore
+        : this.stores.get(name);
+
+    if (!store) {
+      throw new Error(
+        name === undefined
+          ? 'No cache stores registered'
+          : `Cache store "${name}" not found. Registered stores: ${this.names().join(', ')}`,
+      );
+    }
+
+    return store;
+  }
+}
@@ -1,15 +1,26 @@
 import { CacheManager } from '../core/cache-manager';
+import { CacheStoreRegistry, DEFAULT_STORE_NAME } from '../core/store-registry';
 
 /**
  * Symbol to store cache manager on class instances
  */
 export const CACHE_MANAGER_KEY = Symbol('__turbocache_manager__');
 
+/**
+ * Symbol to store cache store registry on class instances
+ */
+export const CACHE_REGISTRY_KEY = Symbol('__turbocache_registry__');
+
 /**
  * Global cache manager (fallback when not using NestJS)
  */
 let globalCacheManager: CacheManager | null = null;
 
+/**
+ * Global store registry (used to route decorators to named stores)
+ */
+let globalCacheRegistry: CacheStoreRegistry | null = null;
+
 /**
  * Set global cache manager
  */
@@ -24,10 +35,41 @@ export function getGlobalCacheManager(): CacheManager | null {
   return globalCacheManager;
 }
 
+/**
+ * Set global store registry
+ */
+export function setGlobalCacheRegistry(registry: CacheStoreRegistry): void {
+  globalCacheRegistry = registry;
+}
+
+/**
+ * Get global store registry
+ */
+export function getGlobalCacheRegistry(): CacheStoreRegistry | null {
+  return globalCacheRegistry;
+}
+
 /**
  * Get cache manager from instance or global
+ * @param store - Store name; when set, resolves the manager of that store
  */
-export function getCacheManager(instance: any): CacheManager {
+export function getCacheManager(instance: any, store?: string): CacheManager {
+  if (store) {
+    const registry: CacheStoreRegistry | null =
+      instance[CACHE_REGISTRY_KEY] || globalCacheRegistry;
+
+    if (registry) {
+      return registry.get(store);
+    }
+
+    if (store !== DEFAULT_STORE_NAME) {
+      throw new Error(
+        `Cache store "${store}" not found. Register stores with TurboCacheModule ` +
+          'or call setGlobalCacheRegistry() before using decorators.',
+      );
+    }
+  }
+
   // Try to get from instance property (injected by NestJS)
   if (instance.cacheManager) {
     return instance.cacheManager;
@@ -55,3 +97,10 @@ export function getCacheManager(instance: any): CacheManager {
 export function setCacheManager(instance: any, manager: CacheManager): void {
   instance[CACHE_MANAGER_KEY] = manager;
 }
+
+/**
+ * Set store registry on instance
+ */
+export function setCacheRegistry(instance: any, registry: CacheStoreRegistry): void {
+  instance[CACHE_REGISTRY_KEY] = registry;
+}
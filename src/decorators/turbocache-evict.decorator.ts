@@ -2,6 +2,7 @@ import 'reflect-metadata';
 import { TurboCacheEvictOptions } from './types';
 import { getCacheManager } from './cache-manager-accessor';
 import { defaultKeyGenerator } from '../utils/key-generator';
+import { runInCacheContext } from '../utils/cache-context';
 
 /**
  * @TurboCacheEvict decorator
@@ -9,7 +10,7 @@ import { defaultKeyGenerator } from '../utils/key-generator';
  * 
  * @example
  * ```typescript
- * @TurboCacheEvict({ key: 'user:#{id}' })
+ * @TurboCacheEvict({ key: 'user:#{id}', tags: ['user:#{id}'] })
  * async updateUser(id: string, data: UpdateDto): Promise<User> {
  *   return this.userRepo.update(id, data);
  * }
@@ -27,34 +28,51 @@ export function TurboCacheEvict(options: TurboCacheEvictOptions = {}): MethodDec
       throw new Error('@TurboCacheEvict can only be applied to methods');
     }
 
+    // Label for metrics and trace spans
+    const method = `${target.constructor.name}.${String(propertyKey)}`;
+    const spanAttributes = {
+      'code.namespace': target.constructor.name,
+      'code.function': String(propertyKey),
+    };
+
     descriptor.value = async function (...args: any[]) {
-      const cacheManager = getCacheManager(this);
+      const cacheManager = getCacheManager(this, options.store);
 
-      // Evict before invocation if specified
-      if (options.beforeInvocation) {
-        await evictCache(cacheManager, null, args, options, propertyKey);
-      }
+      return cacheManager.trace(
+        `TurboCacheEvict ${method}`,
+        { attributes: spanAttributes },
+        async () => {
+          // Evict before invocation if specified
+          if (options.beforeInvocation) {
+            await runInCacheContext({ method }, () =>
+              evictCache(cacheManager, null, args, options, propertyKey),
+            );
+          }
 
-      try {
-        // Execute original method
-        const result = await originalMethod.apply(this, args);
+          try {
+            // Execute original method
+            const result = await originalMethod.apply(this, args);
 
-        // Evict after invocation (default)
-        if (!options.beforeInvocation) {
-          await evictCache(cacheManager, result, args, options, propertyKey);
-        }
+            // Evict after invocation (default)
+            if (!options.beforeInvocation) {
+              await runInCacheContext({ method }, () =>
+                evictCache(cacheManager, result, args, options, propertyKey),
+              );
+            }
 
-        return result;
-      } catch (error) {
-        // If before invocation, don't evict on error
-        if (options.beforeInvocation) {
-          throw error;
-        }
+            return result;
+          } catch (error) {
+            // If before invocation, don't evict on error
+            if (options.beforeInvocation) {
+              throw error;
+            }
 
-        // Optionally still evict on error for after invocation
-        // For now, we don't evict on error
-        throw error;
-      }
+            // Optionally still evict on error for after invocation
+            // For now, we don't evict on error
+            throw error;
+          }
+        },
+      );
     };
 
     // Store metadata
@@ -90,4 +108,10 @@ async function evictCache(
     const cacheKey = defaultKeyGenerator.generate(options.key, args, propertyKey);
     await cacheManager.delete(cacheKey);
   }
+
+  // Evict tagged entries
+  if (options.tags && options.tags.length > 0) {
+    const tags = options.tags.map((tag) => defaultKeyGenerator.generate(tag, args, propertyKey));
+    await cacheManager.invalidateTags(tags);
+  }
 }
@@ -2,6 +2,7 @@ import 'reflect-metadata';
 import { TurboCachePutOptions } from './types';
 import { getCacheManager } from './cache-manager-accessor';
 import { KeyGenerator } from '../utils/key-generator';
+import { runInCacheContext } from '../utils/cache-context';
 
 /**
  * @TurboCachePut decorator
@@ -32,31 +33,54 @@ export function TurboCachePut(options: TurboCachePutOptions): MethodDecorator {
       throw new Error('@TurboCachePut can only be applied to methods');
     }
 
+    // Label for metrics and trace spans
+    const method = `${target.constructor.name}.${String(propertyKey)}`;
+    const spanAttributes = {
+      'code.namespace': target.constructor.name,
+      'code.function': String(propertyKey),
+    };
+
     descriptor.value = async function (...args: any[]) {
-      const cacheManager = getCacheManager(this);
-
-      try {
-        // Execute original method
-        const result = await originalMethod.apply(this, args);
-
-        // Check condition
-        if (options.condition && !options.condition(result, ...args)) {
-          return result;
-        }
-
-        // Generate key (may include #{result.xxx} expressions)
-        const cacheKey = generateKeyWithResult(options.key, args, result, propertyKey);
-
-        // Update cache (async, don't block response)
-        cacheManager.set(cacheKey, result, options.ttl).catch((err) => {
-          console.error('Failed to update cache:', err);
-        });
-
-        return result;
-      } catch (error) {
-        // Don't cache on error
-        throw error;
-      }
+      const cacheManager = getCacheManager(this, options.store);
+
+      return cacheManager.trace(
+        `TurboCachePut ${method}`,
+        { attributes: spanAttributes },
+        async () => {
+          try {
+            // Execute original method
+            const result = await originalMethod.apply(this, args);
+
+            // Check condition
+            if (options.condition && !options.condition(result, ...args)) {
+              return result;
+            }
+
+            // Generate key (may include #{result.xxx} expressions)
+            const cacheKey = generateKeyWithResult(options.key, args, result, propertyKey);
+
+            // Update cache (async, don't block response)
+            const tags = options.tags?.map((tag) =>
+              generateKeyWithResult(tag, args, result, propertyKey),
+            );
+
+            runInCacheContext({ method }, () =>
+              cacheManager.set(cacheKey, result, {
+                ttl: options.ttl,
+                tags,
+                serializer: options.serializer,
+              }),
+            ).catch((err) => {
+              cacheManager.logger.error('Failed to update cache', { key: cacheKey, error: err });
+            });
+
+            return result;
+          } catch (error) {
+            // Don't cache on error
+            throw error;
+          }
+        },
+      );
     };
 
     // Store metadata
@@ -2,6 +2,7 @@ import 'reflect-metadata';
 import { TurboCacheOptions } from './types';
 import { getCacheManager } from './cache-manager-accessor';
 import { defaultKeyGenerator } from '../utils/key-generator';
+import { runInCacheContext, runOutsideCacheContext } from '../utils/cache-context';
 
 /**
  * @TurboCache decorator
@@ -27,47 +28,61 @@ export function TurboCache(options: TurboCacheOptions = {}): MethodDecorator {
       throw new Error('@TurboCache can only be applied to methods');
     }
 
+    // Label for metrics and trace spans
+    const method = `${target.constructor.name}.${String(propertyKey)}`;
+    const spanAttributes = {
+      'code.namespace': target.constructor.name,
+      'code.function': String(propertyKey),
+    };
+
     descriptor.value = async function (...args: any[]) {
       try {
-        const cacheManager = getCacheManager(this);
+        const cacheManager = getCacheManager(this, options.store);
 
         // Generate cache key
         const cacheKey = defaultKeyGenerator.generate(options.key, args, propertyKey);
 
-        // Try to get from cache
-        const cached = await cacheManager.get(cacheKey);
-        if (cached !== null) {
-          // Cache hit - add metadata if requested
-          if (options.includeMetadata) {
-            return addCacheMetadata(cached, {
-              hit: true,
+        const { value: result, status } = await cacheManager.trace(
+          `TurboCache ${method}`,
+          { key: cacheKey, attributes: spanAttributes },
+          async (span) => {
+            const wrapped = await runInCacheContext({ method }, () =>
+              cacheManager.wrapWithStatus(
+                cacheKey,
+                // Cache calls made by the method itself aren't attributed to it
+                async () => runOutsideCacheContext(() => originalMethod.apply(this, args)),
+                {
+                  ttl: options.ttl,
+                  tags: options.tags?.map((tag) =>
+                    defaultKeyGenerator.generate(tag, args, propertyKey),
+                  ),
+                  serializer: options.serializer,
+                  staleTTL: options.staleTTL,
+                  earlyRefresh: options.earlyRefresh,
+                  earlyRefreshBeta: options.earlyRefreshBeta,
+                  condition: (value) => checkCachingConditions(value, args, options),
+                  coalesce: options.coalesce,
+                  stampedeLock: options.stampedeLock,
+                  stampedeTTL: options.stampedeTTL,
+                },
+              ),
+            );
+            span.setAttribute('cache.hit', wrapped.status !== 'miss');
+            return wrapped;
+          },
+        );
+
+        // Add metadata if requested
+        if (options.includeMetadata) {
+          return addCacheMetadata(
+            result,
+            {
+              hit: status !== 'miss',
               key: cacheKey,
               timestamp: Date.now(),
-            }, options.metadataKey);
-          }
-          return cached;
-        }
-
-        // Execute original method
-        const result = await originalMethod.apply(this, args);
-
-        // Check conditions
-        const shouldCache = checkCachingConditions(result, args, options);
-
-        if (shouldCache) {
-          // Store in cache (don't await to avoid slowing down response)
-          cacheManager.set(cacheKey, result, options.ttl).catch((err) => {
-            console.error('Failed to cache result:', err);
-          });
-        }
-
-        // Cache miss - add metadata if requested
-        if (options.includeMetadata) {
-          return addCacheMetadata(result, {
-            hit: false,
-            key: cacheKey,
-            timestamp: Date.now(),
-          }, options.metadataKey);
+            },
+            options.metadataKey,
+          );
         }
 
         return result;
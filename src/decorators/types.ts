@@ -1,3 +1,5 @@
+import { SerializerOption } from '../core/interfaces';
+
 /**
  * Options for @TurboCache decorator
  */
@@ -14,12 +16,23 @@ export interface TurboCacheOptions {
    */
   ttl?: number;
 
+  /**
+   * Tags for invalidating the cached result, with #{param} expressions
+   * @example ['user:#{id}', 'org:#{0.orgId}']
+   */
+  tags?: string[];
+
   /**
    * Cache store name (if using multiple stores)
    * @default 'default'
    */
   store?: string;
 
+  /**
+   * Serializer for cached results (overrides the store serializer)
+   */
+  serializer?: SerializerOption;
+
   /**
    * Cache namespace
    */
@@ -39,6 +52,31 @@ export interface TurboCacheOptions {
    */
   unless?: (result: any, ...args: any[]) => boolean;
 
+  /**
+   * Seconds past the TTL during which the stale result is returned immediately
+   * while the method refreshes it in the background
+   */
+  staleTTL?: number;
+
+  /**
+   * Probabilistically re-run the method before the entry expires (XFetch),
+   * weighted by how long the last execution took
+   * @default false
+   */
+  earlyRefresh?: boolean;
+
+  /**
+   * XFetch beta - values > 1 refresh earlier, < 1 later
+   * @default 1
+   */
+  earlyRefreshBeta?: number;
+
+  /**
+   * Share one method execution between concurrent cache misses for the same key
+   * @default true
+   */
+  coalesce?: boolean;
+
   /**
    * Enable stampede lock to prevent multiple simultaneous cache updates
    * @default false
@@ -79,6 +117,12 @@ export interface TurboCacheEvictOptions {
    */
   key?: string;
 
+  /**
+   * Tags to invalidate, with #{param} expressions
+   * @example ['user:#{id}']
+   */
+  tags?: string[];
+
   /**
    * Evict all entries in namespace
    * @default false
@@ -125,12 +169,23 @@ export interface TurboCachePutOptions {
    */
   ttl?: number;
 
+  /**
+   * Tags for invalidating the cached result
+   * Can use #{result.id} to reference return value properties
+   */
+  tags?: string[];
+
   /**
    * Cache store name
    * @default 'default'
    */
   store?: string;
 
+  /**
+   * Serializer for cached results (overrides the store serializer)
+   */
+  serializer?: SerializerOption;
+
   /**
    * Cache namespace
    */
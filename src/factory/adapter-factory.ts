@@ -1,25 +1,102 @@
-import { ICacheAdapter, StoreConfig } from '../core/interfaces';
+import { join } from 'path';
+import {
+  CacheConfig,
+  ICacheAdapter,
+  IInvalidationBus,
+  SerializerOption,
+  StoreConfig,
+} from '../core/interfaces';
+import { CacheManager } from '../core/cache-manager';
+import { CacheStoreRegistry } from '../core/store-registry';
 import { MemoryAdapter } from '../adapters/memory-adapter';
 import { KeyvAdapter } from '../adapters/keyv-adapter';
+import { RedisAdapter } from '../adapters/redis-adapter';
+import { SqliteAdapter } from '../adapters/sqlite-adapter';
+import { FsAdapter } from '../adapters/fs-adapter';
+import { S3Adapter } from '../adapters/s3-adapter';
 import { MultiTierAdapter } from '../adapters/multi-tier-adapter';
+import { LocalInvalidationBus } from '../invalidation/local-invalidation-bus';
+import { RedisInvalidationBus } from '../invalidation/redis-invalidation-bus';
+import { PrometheusMetrics } from '../metrics/prometheus-metrics';
+import { InstrumentedAdapter } from '../metrics/instrumented-adapter';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+
+/**
+ * Metrics recording for the adapters of a store
+ */
+export interface AdapterInstrumentation {
+  metrics: PrometheusMetrics;
+  namespace: string;
+}
 
 /**
  * Create cache adapter based on configuration
  * This factory abstracts away the complexity of adapter selection
  * Consumers never need to know about Keyv, Cacheable, or internal implementations
+ * @param instrumentation - Record Prometheus metrics (per tier for multi-tier stores)
+ * @param logger - Logger for adapter errors and warnings
  */
-export function createAdapter(store: StoreConfig): ICacheAdapter {
+export function createAdapter(
+  store: StoreConfig,
+  instrumentation?: AdapterInstrumentation,
+  logger: CacheLogger = defaultLogger,
+): ICacheAdapter {
   if (store.type === 'multi-tier') {
-    return createMultiTierAdapter(store);
+    return createMultiTierAdapter(store, instrumentation, logger);
+  }
+
+  return instrument(createSingleTierAdapter(store, logger), store, 'single', instrumentation);
+}
+
+/**
+ * Create an adapter and CacheManager for every configured store
+ * The first store becomes the default store
+ */
+export function createStoreRegistry(config: CacheConfig): CacheStoreRegistry {
+  if (!config.stores || config.stores.length === 0) {
+    throw new Error('At least one cache store must be configured');
+  }
+
+  const registry = new CacheStoreRegistry();
+  const metrics = config.enableMetrics ? new PrometheusMetrics(config.metrics) : null;
+  const logger = new CacheLogger(config.logging);
+
+  for (const store of config.stores) {
+    const adapter = createAdapter(
+      store,
+      metrics ? { metrics, namespace: config.namespace || '' } : undefined,
+      logger,
+    );
+    const manager = new CacheManager(
+      adapter,
+      {
+        ...config,
+        defaultTTL: store.ttl ?? config.defaultTTL,
+        serializer: store.serializer ?? config.serializer ?? defaultSerializer(store),
+      },
+      store.name,
+    );
+    registry.register(store.name, adapter, manager);
   }
 
-  return createSingleTierAdapter(store);
+  return registry;
+}
+
+/**
+ * Default serializer for a store
+ * In-process memory stores keep live values; stores that persist data outside
+ * the process use the type-preserving JSON serializer so Date, Map, Set,
+ * BigInt and Buffer values survive the round trip
+ */
+function defaultSerializer(store: StoreConfig): SerializerOption | undefined {
+  const memoryOnly = store.type === 'memory' || store.primary?.type === 'memory';
+  return memoryOnly && store.type !== 'multi-tier' ? undefined : 'json';
 }
 
 /**
  * Create single-tier adapter
  */
-function createSingleTierAdapter(store: StoreConfig): ICacheAdapter {
+function createSingleTierAdapter(store: StoreConfig, logger: CacheLogger): ICacheAdapter {
   const backend = store.primary;
 
   if (!backend) {
@@ -31,12 +108,39 @@ function createSingleTierAdapter(store: StoreConfig): ICacheAdapter {
       return new MemoryAdapter(backend.options || {});
 
     case 'redis':
-      // Internally uses Keyv - consumers don't need to know
-      return new KeyvAdapter({
+      return new RedisAdapter({
         uri: backend.uri,
-        namespace: store.name,
-        ttl: (backend.ttl || store.ttl || 3600) * 1000, // Convert to ms
+        keyPrefix: `${store.name}:`,
+        ttl: backend.ttl || store.ttl || 3600,
+        ...backend.options,
+        logger,
+      });
+
+    case 'sqlite':
+      return new SqliteAdapter({
+        path: backend.uri,
+        table: `turbocache_${store.name.replace(/\W/g, '_')}`,
+        ttl: backend.ttl || store.ttl || 3600,
+        ...backend.options,
+        logger,
+      });
+
+    case 'fs':
+      // One subdirectory per store, so stores and tiers sharing a uri don't collide
+      return new FsAdapter({
+        directory: backend.uri ? join(backend.uri, store.name) : '',
+        ttl: backend.ttl || store.ttl || 3600,
         ...backend.options,
+        logger,
+      });
+
+    case 's3':
+      return new S3Adapter({
+        uri: backend.uri,
+        keyPrefix: `${store.name}/`,
+        ttl: backend.ttl || store.ttl || 3600,
+        ...backend.options,
+        logger,
       });
 
     case 'mongodb':
@@ -46,6 +150,7 @@ function createSingleTierAdapter(store: StoreConfig): ICacheAdapter {
         namespace: store.name,
         ttl: (backend.ttl || store.ttl || 3600) * 1000,
         ...backend.options,
+        logger,
       });
 
     case 'postgresql':
@@ -55,6 +160,7 @@ function createSingleTierAdapter(store: StoreConfig): ICacheAdapter {
         namespace: store.name,
         ttl: (backend.ttl || store.ttl || 3600) * 1000,
         ...backend.options,
+        logger,
       });
 
     default:
@@ -65,31 +171,98 @@ function createSingleTierAdapter(store: StoreConfig): ICacheAdapter {
 /**
  * Create multi-tier adapter (L1 + L2)
  */
-function createMultiTierAdapter(store: StoreConfig): ICacheAdapter {
+function createMultiTierAdapter(
+  store: StoreConfig,
+  instrumentation: AdapterInstrumentation | undefined,
+  logger: CacheLogger,
+): ICacheAdapter {
   if (!store.primary || !store.secondary) {
     throw new Error('Multi-tier cache requires both primary and secondary backends');
   }
 
   // Create L1 (fast local cache)
-  const l1 = createSingleTierAdapter({
-    name: `${store.name}-l1`,
-    type: store.primary.type as any,
-    primary: store.primary,
-    ttl: store.primary.ttl,
-  });
+  const l1 = createSingleTierAdapter(
+    {
+      name: `${store.name}-l1`,
+      type: store.primary.type as any,
+      primary: store.primary,
+      ttl: store.primary.ttl,
+    },
+    logger,
+  );
 
   // Create L2 (distributed cache)
-  const l2 = createSingleTierAdapter({
-    name: `${store.name}-l2`,
-    type: store.secondary.type as any,
-    primary: store.secondary,
-    ttl: store.secondary.ttl,
-  });
+  const l2 = createSingleTierAdapter(
+    {
+      name: `${store.name}-l2`,
+      type: store.secondary.type as any,
+      primary: store.secondary,
+      ttl: store.secondary.ttl,
+    },
+    logger,
+  );
 
   return new MultiTierAdapter({
-    l1,
-    l2,
+    l1: instrument(l1, store, 'l1', instrumentation),
+    l2: instrument(l2, store, 'l2', instrumentation),
     l1TTL: store.primary.ttl || 300,
     l2TTL: store.secondary.ttl || 3600,
+    bus: createInvalidationBus(store, logger),
+    logger,
+  });
+}
+
+/**
+ * Wrap an adapter to record metrics, if enabled
+ */
+function instrument(
+  adapter: ICacheAdapter,
+  store: StoreConfig,
+  tier: string,
+  instrumentation?: AdapterInstrumentation,
+): ICacheAdapter {
+  if (!instrumentation) {
+    return adapter;
+  }
+
+  return new InstrumentedAdapter(adapter, instrumentation.metrics, {
+    store: store.name,
+    namespace: instrumentation.namespace,
+    tier,
   });
 }
+
+/**
+ * Create the L1 invalidation bus for a multi-tier store
+ * Each store gets its own channel so peers only evict matching stores
+ */
+function createInvalidationBus(
+  store: StoreConfig,
+  logger: CacheLogger,
+): IInvalidationBus | undefined {
+  const config = store.invalidation;
+  if (!config) {
+    return undefined;
+  }
+
+  switch (config.type) {
+    case 'local':
+      return new LocalInvalidationBus(config.channel || store.name);
+
+    case 'redis': {
+      const uri =
+        config.uri || (store.secondary?.type === 'redis' ? store.secondary.uri : undefined);
+      if (!uri) {
+        throw new Error(`Store "${store.name}" Redis invalidation requires a uri`);
+      }
+      return new RedisInvalidationBus({
+        uri,
+        channel: config.channel || `turbocache:invalidation:${store.name}`,
+        logger,
+      });
+    }
+
+    default:
+      throw new Error(`Unsupported invalidation type: ${config.type}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { ISerializer, SerializerOption } from '../core/interfaces';
+import { JsonSerializer } from '../serializers/json-serializer';
+import { MsgpackSerializer } from '../serializers/msgpack-serializer';
+
+/**
+ * Built-in serializers by name
+ */
+const builtInSerializers: Record<string, ISerializer> = {
+  json: new JsonSerializer(),
+  msgpack: new MsgpackSerializer(),
+};
+
+/**
+ * Resolve a serializer option to a serializer instance
+ * Accepts a built-in name ('json' | 'msgpack') or a custom ISerializer
+ */
+export function createSerializer(option: SerializerOption): ISerializer {
+  if (typeof option !== 'string') {
+    return option;
+  }
+
+  const serializer = builtInSerializers[option];
+  if (!serializer) {
+    throw new Error(`Unsupported serializer: ${option}`);
+  }
+  return serializer;
+}
+
+/**
+ * Get a built-in serializer by name
+ * @returns null if no built-in serializer has that name
+ */
+export function getBuiltInSerializer(name: string): ISerializer | null {
+  return builtInSerializers[name] || null;
+}
@@ -6,6 +6,7 @@
 // Core exports
 export * from './core/interfaces';
 export * from './core/cache-manager';
+export * from './core/store-registry';
 
 // Decorators
 export * from './decorators';
@@ -13,11 +14,29 @@ export * from './decorators';
 // Adapters
 export * from './adapters';
 
+// Serializers
+export * from './serializers';
+
+// Invalidation buses
+export * from './invalidation';
+
+// Metrics
+export * from './metrics';
+
+// Tracing
+export * from './tracing';
+
 // Modules (NestJS)
 export * from './modules/turbocache.module';
+export * from './modules/turbocache-health.indicator';
 
 // Factory
-export { createAdapter } from './factory/adapter-factory';
+export {
+  createAdapter,
+  createStoreRegistry,
+  AdapterInstrumentation,
+} from './factory/adapter-factory';
+export { createSerializer } from './factory/serializer-factory';
 
 // Utils
 export * from './utils';
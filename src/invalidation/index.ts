@@ -0,0 +1,2 @@
+export * from './local-invalidation-bus';
+export * from './redis-invalidation-bus';
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { IInvalidationBus, InvalidationMessage } from '../core/interfaces';
+
+/**
+ * Process-wide hub shared by all local buses, one event per channel
+ */
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+/**
+ * In-process invalidation bus
+ * Connects adapters within one process - useful for tests and local development
+ */
+export class LocalInvalidationBus implements IInvalidationBus {
+  private readonly channel: string;
+  private readonly listeners: Array<(message: InvalidationMessage) => void> = [];
+
+  constructor(channel: string = 'default') {
+    this.channel = channel;
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    hub.emit(this.channel, message);
+  }
+
+  async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+    this.listeners.push(handler);
+    hub.on(this.channel, handler);
+  }
+
+  async close(): Promise<void> {
+    this.listeners.forEach((handler) => hub.off(this.channel, handler));
+    this.listeners.length = 0;
+  }
+}
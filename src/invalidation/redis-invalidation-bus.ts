@@ -0,0 +1,117 @@
+import {
+  IInvalidationBus,
+  InvalidationMessage,
+  CacheError,
+  CacheErrorCode,
+} from '../core/interfaces';
+import { CacheLogger, defaultLogger } from '../utils/logger';
+
+/**
+ * Default pub/sub channel
+ */
+const DEFAULT_CHANNEL = 'turbocache:invalidation';
+
+export interface RedisInvalidationBusOptions {
+  uri?: string;
+  client?: any; // ioredis client for publishing; the subscriber connection is duplicated from it
+  channel?: string;
+  logger?: CacheLogger;
+}
+
+/**
+ * Invalidation bus over Redis pub/sub
+ * Requires the optional ioredis package unless a client is provided
+ */
+export class RedisInvalidationBus implements IInvalidationBus {
+  private readonly publisher: any;
+  private readonly ownsPublisher: boolean;
+  private readonly channel: string;
+  private readonly logger: CacheLogger;
+  private subscriber: any = null;
+
+  constructor(options: RedisInvalidationBusOptions) {
+    if (!options.client && !options.uri) {
+      throw new Error('RedisInvalidationBus requires a "client" or "uri" option');
+    }
+
+    this.publisher = options.client ?? createRedisClient(options.uri!);
+    this.ownsPublisher = !options.client;
+    this.channel = options.channel || DEFAULT_CHANNEL;
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    try {
+      await this.publisher.publish(this.channel, JSON.stringify(message));
+    } catch (error) {
+      throw new CacheError(
+        'Failed to publish invalidation message',
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+    if (!this.subscriber) {
+      // A subscribed connection can't issue other commands
+      this.subscriber = this.publisher.duplicate();
+    }
+
+    this.subscriber.on('message', (channel: string, data: string) => {
+      if (channel !== this.channel) {
+        return;
+      }
+
+      let message: InvalidationMessage;
+      try {
+        message = JSON.parse(data);
+      } catch (error) {
+        this.logger.warn('Ignoring malformed invalidation message', { error });
+        return;
+      }
+      handler(message);
+    });
+
+    try {
+      await this.subscriber.subscribe(this.channel);
+    } catch (error) {
+      throw new CacheError(
+        `Failed to subscribe to channel: ${this.channel}`,
+        CacheErrorCode.CONNECTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.subscriber?.quit();
+      // Subscribing again after close duplicates a fresh connection
+      this.subscriber = null;
+      if (this.ownsPublisher) {
+        await this.publisher.quit();
+      }
+    } catch (error) {
+      this.logger.error('Error closing invalidation bus', { error });
+    }
+  }
+}
+
+/**
+ * Create an ioredis client from the optional ioredis dependency
+ */
+function createRedisClient(uri: string): any {
+  let Redis: any;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    Redis = require('ioredis');
+  } catch (error) {
+    throw new CacheError(
+      'Redis invalidation requires the "ioredis" package. Install it with: npm install ioredis',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+  return new Redis(uri);
+}
@@ -0,0 +1,170 @@
+import {
+  ICacheAdapter,
+  CacheStats,
+  AdapterHealth,
+  AdapterEvent,
+  ScanOptions,
+} from '../core/interfaces';
+import { isCacheEntry, isFresh } from '../core/cache-entry';
+import { getCacheContext } from '../utils/cache-context';
+import { CacheMetricLabels, PrometheusMetrics } from './prometheus-metrics';
+
+/**
+ * Labels fixed for an adapter; the method label comes from the cache context
+ */
+export type AdapterMetricLabels = Omit<CacheMetricLabels, 'method'>;
+
+/**
+ * Adapter wrapper that records Prometheus metrics for every operation
+ * Multi-tier stores wrap each tier, so hits are attributed to L1 or L2
+ * Entries past their fresh TTL count as misses, and housekeeping operations
+ * (health probes, stampede lock polls) are timed but not counted
+ */
+export class InstrumentedAdapter implements ICacheAdapter {
+  readonly connect?: () => Promise<void>;
+  readonly close?: () => Promise<void>;
+  readonly ping?: () => Promise<void>;
+  readonly health?: () => Promise<AdapterHealth>;
+  readonly resetStats?: () => void;
+  readonly onEvent?: (listener: (event: AdapterEvent) => void) => void;
+  readonly scan?: (pattern?: string, options?: ScanOptions) => AsyncIterable<string[]>;
+  readonly acquireLock?: (key: string, ttl: number) => Promise<string | null>;
+  readonly releaseLock?: (key: string, token: string) => Promise<void>;
+  readonly tagKey?: (key: string, tags: string[], ttl?: number) => Promise<void>;
+  readonly invalidateTags?: (tags: string[]) => Promise<string[]>;
+
+  constructor(
+    private readonly adapter: ICacheAdapter,
+    private readonly metrics: PrometheusMetrics,
+    private readonly labels: AdapterMetricLabels,
+  ) {
+    // Only expose the optional methods the wrapped adapter has
+    this.connect = adapter.connect?.bind(adapter);
+    this.close = adapter.close?.bind(adapter);
+    this.ping = adapter.ping?.bind(adapter);
+    this.health = adapter.health?.bind(adapter);
+    this.resetStats = adapter.resetStats?.bind(adapter);
+    this.onEvent = adapter.onEvent?.bind(adapter);
+    this.scan = adapter.scan?.bind(adapter);
+
+    const { acquireLock, releaseLock, tagKey, invalidateTags } = adapter;
+    if (acquireLock) {
+      this.acquireLock = (key, ttl) =>
+        this.measure('acquireLock', () => acquireLock.call(adapter, key, ttl));
+    }
+    if (releaseLock) {
+      this.releaseLock = (key, token) =>
+        this.measure('releaseLock', () => releaseLock.call(adapter, key, token));
+    }
+    if (tagKey) {
+      this.tagKey = (key, tags, ttl) =>
+        this.measure('tagKey', () => tagKey.call(adapter, key, tags, ttl));
+    }
+    if (invalidateTags) {
+      this.invalidateTags = async (tags) => {
+        const keys = await this.measure('invalidateTags', () => invalidateTags.call(adapter, tags));
+        if (!isInternal()) {
+          this.metrics.recordDeletes(this.currentLabels(), keys.length);
+        }
+        return keys;
+      };
+    }
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.measure('get', () => this.adapter.get<T>(key));
+    if (isInternal()) {
+      return value;
+    }
+
+    if (isHit(value)) {
+      this.metrics.recordHits(this.currentLabels());
+    } else {
+      this.metrics.recordMisses(this.currentLabels());
+    }
+    return value;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    await this.measure('set', () => this.adapter.set(key, value, ttl));
+    if (!isInternal()) {
+      this.metrics.recordSets(this.currentLabels());
+    }
+  }
+
+  async delete(key: string | string[]): Promise<void> {
+    await this.measure('delete', () => this.adapter.delete(key));
+    if (!isInternal()) {
+      this.metrics.recordDeletes(this.currentLabels(), Array.isArray(key) ? key.length : 1);
+    }
+  }
+
+  async clear(pattern?: string): Promise<void> {
+    return this.measure('clear', () => this.adapter.clear(pattern));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.measure('has', () => this.adapter.has(key));
+  }
+
+  async mget<T>(keys: string[]): Promise<Map<string, T>> {
+    const results = await this.measure('mget', () => this.adapter.mget<T>(keys));
+    if (isInternal()) {
+      return results;
+    }
+
+    const labels = this.currentLabels();
+    const hits = Array.from(results.values()).filter(isHit).length;
+    this.metrics.recordHits(labels, hits);
+    this.metrics.recordMisses(labels, keys.length - hits);
+    return results;
+  }
+
+  async mset<T>(entries: Map<string, T>, ttl?: number): Promise<void> {
+    await this.measure('mset', () => this.adapter.mset(entries, ttl));
+    if (!isInternal()) {
+      this.metrics.recordSets(this.currentLabels(), entries.size);
+    }
+  }
+
+  async keys(pattern?: string): Promise<string[]> {
+    return this.measure('keys', () => this.adapter.keys(pattern));
+  }
+
+  async stats(): Promise<CacheStats> {
+    return this.adapter.stats();
+  }
+
+  /**
+   * Record duration of an operation, and an error if it fails
+   */
+  private async measure<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const labels = this.currentLabels();
+    const start = performance.now();
+
+    try {
+      return await fn();
+    } catch (error) {
+      this.metrics.recordError(labels, operation);
+      throw error;
+    } finally {
+      this.metrics.recordDuration(labels, operation, (performance.now() - start) / 1000);
+    }
+  }
+
+  private currentLabels(): CacheMetricLabels {
+    return { ...this.labels, method: getCacheContext()?.method ?? '' };
+  }
+}
+
+/**
+ * Found and, for entries written by CacheManager, still fresh
+ * Stale entries are served by stale-while-revalidate, but they still need a recompute
+ */
+function isHit(value: unknown): boolean {
+  return value !== null && (!isCacheEntry(value) || isFresh(value));
+}
+
+function isInternal(): boolean {
+  return getCacheContext()?.internal ?? false;
+}
@@ -0,0 +1,124 @@
+import { MetricsConfig, CacheError, CacheErrorCode } from '../core/interfaces';
+
+/**
+ * Default metric name prefix
+ */
+const DEFAULT_PREFIX = 'turbocache_';
+
+/**
+ * Default latency buckets in seconds (0.5ms - 1s)
+ */
+const DEFAULT_BUCKETS = [0.0005, 0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Labels on every cache metric
+ */
+export interface CacheMetricLabels {
+  store: string;
+  namespace: string;
+  tier: string; // 'l1' | 'l2' for multi-tier stores, 'single' otherwise
+  method: string; // decorated method, '' for direct CacheManager calls
+}
+
+const LABEL_NAMES = ['store', 'namespace', 'tier', 'method'];
+
+/**
+ * Prometheus counters and histograms for cache operations
+ * Metrics are registered once per registry, so several stores (or module
+ * instances) share them and are told apart by labels
+ */
+export class PrometheusMetrics {
+  private readonly hits: any;
+  private readonly misses: any;
+  private readonly sets: any;
+  private readonly deletes: any;
+  private readonly errors: any;
+  private readonly duration: any;
+
+  constructor(config: MetricsConfig = {}) {
+    const client = loadPromClient();
+    const registry = config.registry || client.register;
+    const prefix = config.prefix ?? DEFAULT_PREFIX;
+
+    const metric = (type: 'Counter' | 'Histogram', name: string, options: Record<string, any>) =>
+      registry.getSingleMetric(prefix + name) ??
+      new client[type]({ name: prefix + name, registers: [registry], ...options });
+
+    this.hits = metric('Counter', 'hits_total', {
+      help: 'Cache lookups that found a value',
+      labelNames: LABEL_NAMES,
+    });
+    this.misses = metric('Counter', 'misses_total', {
+      help: 'Cache lookups that found no value',
+      labelNames: LABEL_NAMES,
+    });
+    this.sets = metric('Counter', 'sets_total', {
+      help: 'Values written to the cache',
+      labelNames: LABEL_NAMES,
+    });
+    this.deletes = metric('Counter', 'deletes_total', {
+      help: 'Keys deleted from the cache',
+      labelNames: LABEL_NAMES,
+    });
+    this.errors = metric('Counter', 'errors_total', {
+      help: 'Failed cache operations',
+      labelNames: [...LABEL_NAMES, 'operation'],
+    });
+    this.duration = metric('Histogram', 'operation_duration_seconds', {
+      help: 'Cache operation latency',
+      labelNames: [...LABEL_NAMES, 'operation'],
+      buckets: config.buckets || DEFAULT_BUCKETS,
+    });
+  }
+
+  recordHits(labels: CacheMetricLabels, count: number = 1): void {
+    if (count > 0) {
+      this.hits.inc(labels, count);
+    }
+  }
+
+  recordMisses(labels: CacheMetricLabels, count: number = 1): void {
+    if (count > 0) {
+      this.misses.inc(labels, count);
+    }
+  }
+
+  recordSets(labels: CacheMetricLabels, count: number = 1): void {
+    if (count > 0) {
+      this.sets.inc(labels, count);
+    }
+  }
+
+  recordDeletes(labels: CacheMetricLabels, count: number = 1): void {
+    if (count > 0) {
+      this.deletes.inc(labels, count);
+    }
+  }
+
+  recordError(labels: CacheMetricLabels, operation: string): void {
+    this.errors.inc({ ...labels, operation });
+  }
+
+  /**
+   * @param seconds - Operation duration in seconds
+   */
+  recordDuration(labels: CacheMetricLabels, operation: string, seconds: number): void {
+    this.duration.observe({ ...labels, operation }, seconds);
+  }
+}
+
+/**
+ * Load the optional prom-client dependency
+ */
+function loadPromClient(): any {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('prom-client');
+  } catch (error) {
+    throw new CacheError(
+      'Metrics require the "prom-client" package. Install it with: npm install prom-client',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CacheStoreRegistry } from '../core/store-registry';
+import { worstHealthStatus } from '../utils/health-probe';
+
+/**
+ * Health indicator result in the @nestjs/terminus format
+ */
+export type TurboCacheHealthResult = Record<
+  string,
+  { status: 'up' | 'down'; [detail: string]: any }
+>;
+
+export interface TurboCacheHealthOptions {
+  /**
+   * Stores to check (defaults to all stores)
+   */
+  stores?: string[];
+
+  /**
+   * Report degraded stores (e.g. L2 down, L1 serving) as up
+   * @default true
+   */
+  allowDegraded?: boolean;
+}
+
+/**
+ * Error thrown when the cache is unhealthy
+ * Matches @nestjs/terminus HealthCheckError, which Terminus detects by its
+ * isHealthCheckError flag, so Terminus doesn't have to be installed to use TurboCache
+ */
+export class TurboCacheHealthCheckError extends Error {
+  readonly isHealthCheckError = true;
+
+  constructor(
+    message: string,
+    public readonly causes: TurboCacheHealthResult,
+  ) {
+    super(message);
+    this.name = 'TurboCacheHealthCheckError';
+  }
+}
+
+/**
+ * Health indicator for @nestjs/terminus
+ *
+ * @example
+ * ```typescript
+ * @Get('health')
+ * @HealthCheck()
+ * check() {
+ *   return this.health.check([() => this.cacheHealth.isHealthy('cache')]);
+ * }
+ * ```
+ */
+@Injectable()
+export class TurboCacheHealthIndicator {
+  constructor(@Inject('CACHE_REGISTRY') private readonly registry: CacheStoreRegistry) {}
+
+  /**
+   * Check cache stores
+   * @param key - Key of the result in the health check response
+   * @throws TurboCacheHealthCheckError if a store is down (or degraded, unless allowed)
+   */
+  async isHealthy(
+    key: string = 'turbocache',
+    options: TurboCacheHealthOptions = {},
+  ): Promise<TurboCacheHealthResult> {
+    const health = await this.registry.health();
+    const stores = options.stores
+      ? Object.fromEntries(options.stores.map((name) => [name, health.stores[name]]))
+      : health.stores;
+
+    // Unknown store names count as down
+    const cacheStatus = worstHealthStatus(
+      Object.values(stores).map((store) => store?.status ?? 'down'),
+    );
+    const healthy =
+      cacheStatus === 'up' || (cacheStatus === 'degraded' && (options.allowDegraded ?? true));
+
+    const result: TurboCacheHealthResult = {
+      [key]: { status: healthy ? 'up' : 'down', cacheStatus, stores },
+    };
+
+    if (!healthy) {
+      throw new TurboCacheHealthCheckError('TurboCache health check failed', result);
+    }
+    return result;
+  }
+}
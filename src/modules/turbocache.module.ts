@@ -1,21 +1,56 @@
-import { DynamicModule, Module, Provider } from '@nestjs/common';
+import {
+  DynamicModule,
+  Inject,
+  Logger,
+  Module,
+  OnApplicationShutdown,
+  OnModuleInit,
+  Provider,
+} from '@nestjs/common';
 import { CacheConfig } from '../core/interfaces';
-import { CacheManager } from '../core/cache-manager';
-import { createAdapter } from '../factory/adapter-factory';
+import { CacheStoreRegistry, DEFAULT_STORE_NAME } from '../core/store-registry';
+import { createStoreRegistry } from '../factory/adapter-factory';
+import { setGlobalCacheRegistry } from '../decorators/cache-manager-accessor';
+import { TurboCacheHealthIndicator } from './turbocache-health.indicator';
 
 export interface TurboCacheModuleAsyncOptions {
   imports?: any[];
   useFactory?: (...args: any[]) => Promise<CacheConfig> | CacheConfig;
   inject?: any[];
   extraProviders?: Provider[];
+  /**
+   * Names of stores to expose for @InjectCache(name)
+   * Store names are only known once the factory runs, so they must be listed here
+   */
+  stores?: string[];
+}
+
+/**
+ * Get injection token for a store's CacheManager
+ * The default store uses the 'CACHE_MANAGER' token
+ */
+export function getCacheToken(name: string = DEFAULT_STORE_NAME): string {
+  return name === DEFAULT_STORE_NAME ? 'CACHE_MANAGER' : `CACHE_MANAGER:${name}`;
 }
 
 /**
  * TurboCache NestJS Module
  * Provides caching functionality with dependency injection
+ * Connects store adapters on init and closes them on shutdown
+ * (call app.enableShutdownHooks() so shutdown runs on SIGTERM)
  */
 @Module({})
-export class TurboCacheModule {
+export class TurboCacheModule implements OnModuleInit, OnApplicationShutdown {
+  constructor(@Inject('CACHE_REGISTRY') private readonly registry: CacheStoreRegistry) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.registry.connect();
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.registry.close();
+  }
+
   /**
    * Register TurboCache synchronously
    * @param config - Cache configuration
@@ -36,14 +71,22 @@ export class TurboCacheModule {
    * Useful when config depends on other modules (e.g., ConfigModule)
    */
   static registerAsync(options: TurboCacheModuleAsyncOptions): DynamicModule {
+    const storeProviders = this.createStoreProviders(options.stores || []);
+
     return {
       module: TurboCacheModule,
       imports: options.imports || [],
       providers: [
         ...this.createAsyncProviders(options),
+        ...storeProviders,
         ...(options.extraProviders || []),
       ],
-      exports: ['CACHE_MANAGER'],
+      exports: [
+        'CACHE_MANAGER',
+        'CACHE_REGISTRY',
+        TurboCacheHealthIndicator,
+        ...storeProviders.map((provider) => (provider as any).provide),
+      ],
       global: true,
     };
   }
@@ -57,21 +100,8 @@ export class TurboCacheModule {
         provide: 'CACHE_CONFIG',
         useValue: config,
       },
-      {
-        provide: 'CACHE_ADAPTER',
-        useFactory: (cfg: CacheConfig) => {
-          // Use first store as default
-          return createAdapter(cfg.stores[0]);
-        },
-        inject: ['CACHE_CONFIG'],
-      },
-      {
-        provide: 'CACHE_MANAGER',
-        useFactory: (adapter: any, cfg: CacheConfig) => {
-          return new CacheManager(adapter, cfg);
-        },
-        inject: ['CACHE_ADAPTER', 'CACHE_CONFIG'],
-      },
+      ...this.createCoreProviders(),
+      ...this.createStoreProviders(config.stores.map((store) => store.name)),
     ];
   }
 
@@ -85,42 +115,70 @@ export class TurboCacheModule {
         useFactory: options.useFactory!,
         inject: options.inject || [],
       },
+      ...this.createCoreProviders(),
+    ];
+  }
+
+  /**
+   * Create registry, default adapter, default manager and health indicator providers
+   */
+  private static createCoreProviders(): Provider[] {
+    return [
       {
-        provide: 'CACHE_ADAPTER',
-        useFactory: (config: CacheConfig) => {
-          return createAdapter(config.stores[0]);
+        provide: 'CACHE_REGISTRY',
+        useFactory: (cfg: CacheConfig) => {
+          // Log through Nest's Logger unless another logger is configured
+          const registry = createStoreRegistry({
+            ...cfg,
+            logging: { ...cfg.logging, logger: cfg.logging?.logger ?? new Logger('TurboCache') },
+          });
+          // Decorators are not DI-aware - expose registry for store routing
+          setGlobalCacheRegistry(registry);
+          return registry;
         },
         inject: ['CACHE_CONFIG'],
       },
+      {
+        provide: 'CACHE_ADAPTER',
+        useFactory: (registry: CacheStoreRegistry) => registry.getAdapter(),
+        inject: ['CACHE_REGISTRY'],
+      },
       {
         provide: 'CACHE_MANAGER',
-        useFactory: (adapter: any, config: CacheConfig) => {
-          return new CacheManager(adapter, config);
-        },
-        inject: ['CACHE_ADAPTER', 'CACHE_CONFIG'],
+        useFactory: (registry: CacheStoreRegistry) => registry.get(),
+        inject: ['CACHE_REGISTRY'],
       },
+      TurboCacheHealthIndicator,
     ];
   }
+
+  /**
+   * Create one CacheManager provider per named store
+   */
+  private static createStoreProviders(names: string[]): Provider[] {
+    return names
+      .filter((name) => name !== DEFAULT_STORE_NAME)
+      .map((name) => ({
+        provide: getCacheToken(name),
+        useFactory: (registry: CacheStoreRegistry) => registry.get(name),
+        inject: ['CACHE_REGISTRY'],
+      }));
+  }
 }
 
 /**
  * Decorator for injecting CacheManager
- * For now, this is a simplified version. In NestJS, you can also use:
- * @Inject('CACHE_MANAGER') from @nestjs/common
+ * Equivalent to @Inject(getCacheToken(name)) from @nestjs/common
  *
  * @example
  * ```typescript
- * constructor(@InjectCache() private cache: CacheManager) {}
+ * constructor(
+ *   @InjectCache() private cache: CacheManager,
+ *   @InjectCache('sessions') private sessions: CacheManager,
+ * ) {}
  * ```
- * @param _name - Store name (reserved for future multi-store support)
+ * @param name - Store name (defaults to the first configured store)
  */
-export function InjectCache(_name: string = 'default'): ParameterDecorator {
-  return (target: object, _propertyKey: string | symbol | undefined, parameterIndex: number) => {
-    // Mark this parameter for injection with the CACHE_MANAGER token
-    const existingTokens: any[] = Reflect.getMetadata('design:paramtypes', target) || [];
-    const injectionTokens: any[] = Reflect.getMetadata('self:paramtypes', target) || [];
-    
-    injectionTokens[parameterIndex] = 'CACHE_MANAGER';
-    Reflect.defineMetadata('self:paramtypes', injectionTokens, target);
-  };
+export function InjectCache(name: string = DEFAULT_STORE_NAME): ParameterDecorator {
+  return Inject(getCacheToken(name)) as ParameterDecorator;
 }
@@ -0,0 +1,2 @@
+export * from './json-serializer';
+export * from './msgpack-serializer';
@@ -0,0 +1,133 @@
+import { ISerializer, CacheError, CacheErrorCode } from '../core/interfaces';
+
+/**
+ * Property tagging JSON objects that encode a non-JSON type
+ */
+const TYPE_KEY = '$$type';
+
+/**
+ * JSON serializer that round-trips types plain JSON loses:
+ * Date, Map, Set, BigInt, Buffer, NaN/Infinity and undefined array elements
+ * (undefined properties are dropped, as in plain JSON)
+ *
+ * Tagged values are encoded as { "$$type": "Date", "value": ... }; plain
+ * objects that happen to contain a "$$type" key are escaped so they are
+ * restored unchanged
+ */
+export class JsonSerializer implements ISerializer {
+  readonly name = 'json';
+
+  serialize(value: any): string {
+    try {
+      return JSON.stringify(value, function (this: any, key: string, current: any) {
+        // Date and Buffer implement toJSON - inspect the original value instead
+        return encodeValue(this[key], current);
+      });
+    } catch (error) {
+      throw new CacheError(
+        'Failed to serialize value as JSON',
+        CacheErrorCode.SERIALIZATION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  deserialize<T>(data: string | Buffer): T {
+    try {
+      const text = Buffer.isBuffer(data) ? data.toString('utf8') : data;
+      return JSON.parse(text, (_key, current) => decodeValue(current));
+    } catch (error) {
+      throw new CacheError(
+        'Failed to deserialize JSON value',
+        CacheErrorCode.SERIALIZATION_ERROR,
+        error as Error,
+      );
+    }
+  }
+}
+
+/**
+ * Replace non-JSON values with tagged objects
+ */
+function encodeValue(original: any, current: any): any {
+  if (original === undefined) {
+    return { [TYPE_KEY]: 'undefined' };
+  }
+  if (typeof original === 'number' && !Number.isFinite(original)) {
+    return { [TYPE_KEY]: 'Number', value: String(original) };
+  }
+  if (typeof original === 'bigint') {
+    return { [TYPE_KEY]: 'BigInt', value: original.toString() };
+  }
+  if (original instanceof Date) {
+    return { [TYPE_KEY]: 'Date', value: original.getTime() };
+  }
+  if (Buffer.isBuffer(original)) {
+    return { [TYPE_KEY]: 'Buffer', value: original.toString('base64') };
+  }
+  if (original instanceof Map) {
+    return { [TYPE_KEY]: 'Map', value: Array.from(original.entries()) };
+  }
+  if (original instanceof Set) {
+    return { [TYPE_KEY]: 'Set', value: Array.from(original.values()) };
+  }
+  if (isPlainObject(original) && Object.prototype.hasOwnProperty.call(original, TYPE_KEY)) {
+    return { [TYPE_KEY]: 'Object', value: Object.entries(original) };
+  }
+  return current;
+}
+
+/**
+ * Restore tagged objects to their original types
+ */
+function decodeValue(current: any): any {
+  if (Array.isArray(current)) {
+    return restoreUndefined(current);
+  }
+  if (!isPlainObject(current) || typeof current[TYPE_KEY] !== 'string') {
+    return current;
+  }
+
+  const { value } = current;
+  switch (current[TYPE_KEY]) {
+    case 'undefined':
+      return undefined;
+    case 'Number':
+      return Number(value);
+    case 'BigInt':
+      return BigInt(value);
+    case 'Date':
+      return new Date(value);
+    case 'Buffer':
+      return Buffer.from(value, 'base64');
+    case 'Map':
+      return new Map(value);
+    case 'Set':
+      return new Set(value);
+    case 'Object':
+      return Object.fromEntries(value);
+    default:
+      return current;
+  }
+}
+
+/**
+ * Decoded undefined elements are deleted by JSON.parse, leaving holes -
+ * parsed JSON has no other holes, so each one was undefined
+ */
+function restoreUndefined(array: any[]): any[] {
+  for (let i = 0; i < array.length; i++) {
+    if (!(i in array)) {
+      array[i] = undefined;
+    }
+  }
+  return array;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
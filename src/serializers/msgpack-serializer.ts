@@ -0,0 +1,506 @@
+import { ISerializer, CacheError, CacheErrorCode } from '../core/interfaces';
+
+/**
+ * MessagePack extension type codes
+ * -1 is the spec's timestamp type; the others are application-specific
+ */
+const EXT_TIMESTAMP = -1;
+const EXT_MAP = 1;
+const EXT_SET = 2;
+const EXT_UNDEFINED = 3;
+const EXT_BIGINT = 4;
+const EXT_INVALID_DATE = 5;
+
+const INT64_MIN = -(BigInt(2) ** BigInt(63));
+const UINT64_MAX = BigInt(2) ** BigInt(64) - BigInt(1);
+
+/**
+ * Compact binary serializer using the MessagePack format
+ *
+ * Round-trips Date (timestamp extension), Map, Set, BigInt, Buffer (bin)
+ * and undefined. JS numbers are never encoded as 64-bit integers so that
+ * 64-bit integers can be decoded back to BigInt without ambiguity.
+ */
+export class MsgpackSerializer implements ISerializer {
+  readonly name = 'msgpack';
+
+  serialize(value: any): Buffer {
+    try {
+      const encoder = new Encoder();
+      encoder.encode(value);
+      return encoder.toBuffer();
+    } catch (error) {
+      throw new CacheError(
+        'Failed to serialize value as MessagePack',
+        CacheErrorCode.SERIALIZATION_ERROR,
+        error as Error,
+      );
+    }
+  }
+
+  deserialize<T>(data: string | Buffer): T {
+    try {
+      const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'base64');
+      const decoder = new Decoder(buffer);
+      const value = decoder.decode();
+      if (!decoder.done()) {
+        throw new Error('Unexpected trailing bytes');
+      }
+      return value;
+    } catch (error) {
+      throw new CacheError(
+        'Failed to deserialize MessagePack value',
+        CacheErrorCode.SERIALIZATION_ERROR,
+        error as Error,
+      );
+    }
+  }
+}
+
+/**
+ * Streaming MessagePack encoder
+ */
+class Encoder {
+  private buffer: Buffer = Buffer.allocUnsafe(256);
+  private offset: number = 0;
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.offset));
+  }
+
+  encode(value: any): void {
+    if (value === null) {
+      this.writeUInt8(0xc0);
+    } else if (value === undefined) {
+      this.writeExt(EXT_UNDEFINED, Buffer.alloc(1));
+    } else if (typeof value === 'boolean') {
+      this.writeUInt8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.encodeNumber(value);
+    } else if (typeof value === 'bigint') {
+      this.encodeBigInt(value);
+    } else if (typeof value === 'string') {
+      this.encodeString(value);
+    } else if (value instanceof Uint8Array) {
+      this.encodeBinary(value);
+    } else if (value instanceof Date) {
+      this.encodeDate(value);
+    } else if (value instanceof Map) {
+      this.writeExt(EXT_MAP, this.nested(Array.from(value.entries())));
+    } else if (value instanceof Set) {
+      this.writeExt(EXT_SET, this.nested(Array.from(value.values())));
+    } else if (Array.isArray(value)) {
+      this.encodeArray(value);
+    } else if (typeof value === 'object') {
+      this.encodeObject(value);
+    } else {
+      throw new Error(`Cannot serialize value of type ${typeof value}`);
+    }
+  }
+
+  private encodeNumber(value: number): void {
+    if (Number.isInteger(value) && value >= -0x80000000 && value <= 0xffffffff) {
+      if (value >= 0) {
+        if (value < 0x80) {
+          this.writeUInt8(value);
+        } else if (value <= 0xff) {
+          this.writeUInt8(0xcc);
+          this.writeUInt8(value);
+        } else if (value <= 0xffff) {
+          this.writeUInt8(0xcd);
+          this.ensure(2);
+          this.offset = this.buffer.writeUInt16BE(value, this.offset);
+        } else {
+          this.writeUInt8(0xce);
+          this.ensure(4);
+          this.offset = this.buffer.writeUInt32BE(value, this.offset);
+        }
+      } else if (value >= -0x20) {
+        this.ensure(1);
+        this.offset = this.buffer.writeInt8(value, this.offset);
+      } else if (value >= -0x80) {
+        this.writeUInt8(0xd0);
+        this.ensure(1);
+        this.offset = this.buffer.writeInt8(value, this.offset);
+      } else if (value >= -0x8000) {
+        this.writeUInt8(0xd1);
+        this.ensure(2);
+        this.offset = this.buffer.writeInt16BE(value, this.offset);
+      } else {
+        this.writeUInt8(0xd2);
+        this.ensure(4);
+        this.offset = this.buffer.writeInt32BE(value, this.offset);
+      }
+      return;
+    }
+
+    // Non-integers, large integers, NaN and Infinity
+    this.writeUInt8(0xcb);
+    this.ensure(8);
+    this.offset = this.buffer.writeDoubleBE(value, this.offset);
+  }
+
+  private encodeBigInt(value: bigint): void {
+    if (value >= INT64_MIN && value < BigInt(0)) {
+      this.writeUInt8(0xd3);
+      this.ensure(8);
+      this.offset = this.buffer.writeBigInt64BE(value, this.offset);
+    } else if (value >= BigInt(0) && value <= UINT64_MAX) {
+      this.writeUInt8(0xcf);
+      this.ensure(8);
+      this.offset = this.buffer.writeBigUInt64BE(value, this.offset);
+    } else {
+      this.writeExt(EXT_BIGINT, Buffer.from(value.toString(), 'utf8'));
+    }
+  }
+
+  private encodeString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    const length = bytes.length;
+
+    if (length < 32) {
+      this.writeUInt8(0xa0 | length);
+    } else if (length <= 0xff) {
+      this.writeUInt8(0xd9);
+      this.writeUInt8(length);
+    } else if (length <= 0xffff) {
+      this.writeUInt8(0xda);
+      this.ensure(2);
+      this.offset = this.buffer.writeUInt16BE(length, this.offset);
+    } else {
+      this.writeUInt8(0xdb);
+      this.ensure(4);
+      this.offset = this.buffer.writeUInt32BE(length, this.offset);
+    }
+    this.writeBytes(bytes);
+  }
+
+  private encodeBinary(value: Uint8Array): void {
+    const length = value.length;
+
+    if (length <= 0xff) {
+      this.writeUInt8(0xc4);
+      this.writeUInt8(length);
+    } else if (length <= 0xffff) {
+      this.writeUInt8(0xc5);
+      this.ensure(2);
+      this.offset = this.buffer.writeUInt16BE(length, this.offset);
+    } else {
+      this.writeUInt8(0xc6);
+      this.ensure(4);
+      this.offset = this.buffer.writeUInt32BE(length, this.offset);
+    }
+    this.writeBytes(value);
+  }
+
+  /**
+   * Timestamp 96 format: uint32 nanoseconds + int64 seconds
+   */
+  private encodeDate(value: Date): void {
+    const ms = value.getTime();
+    // Invalid Dates have no timestamp to encode
+    if (Number.isNaN(ms)) {
+      this.writeExt(EXT_INVALID_DATE, Buffer.alloc(1));
+      return;
+    }
+
+    const seconds = Math.floor(ms / 1000);
+    const nanoseconds = (ms - seconds * 1000) * 1e6;
+
+    const payload = Buffer.alloc(12);
+    payload.writeUInt32BE(nanoseconds, 0);
+    payload.writeBigInt64BE(BigInt(seconds), 4);
+    this.writeExt(EXT_TIMESTAMP, payload);
+  }
+
+  private encodeArray(value: any[]): void {
+    this.writeContainerHeader(value.length, 0x90, 0xdc, 0xdd);
+    for (const item of value) {
+      this.encode(item);
+    }
+  }
+
+  private encodeObject(value: Record<string, any>): void {
+    const keys = Object.keys(value);
+    this.writeContainerHeader(keys.length, 0x80, 0xde, 0xdf);
+    for (const key of keys) {
+      this.encodeString(key);
+      this.encode(value[key]);
+    }
+  }
+
+  private writeContainerHeader(length: number, fix: number, type16: number, type32: number): void {
+    if (length < 16) {
+      this.writeUInt8(fix | length);
+    } else if (length <= 0xffff) {
+      this.writeUInt8(type16);
+      this.ensure(2);
+      this.offset = this.buffer.writeUInt16BE(length, this.offset);
+    } else {
+      this.writeUInt8(type32);
+      this.ensure(4);
+      this.offset = this.buffer.writeUInt32BE(length, this.offset);
+    }
+  }
+
+  private writeExt(type: number, data: Uint8Array): void {
+    const length = data.length;
+    const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+
+    if (fixed[length]) {
+      this.writeUInt8(fixed[length]);
+    } else if (length <= 0xff) {
+      this.writeUInt8(0xc7);
+      this.writeUInt8(length);
+    } else if (length <= 0xffff) {
+      this.writeUInt8(0xc8);
+      this.ensure(2);
+      this.offset = this.buffer.writeUInt16BE(length, this.offset);
+    } else {
+      this.writeUInt8(0xc9);
+      this.ensure(4);
+      this.offset = this.buffer.writeUInt32BE(length, this.offset);
+    }
+
+    this.ensure(1);
+    this.offset = this.buffer.writeInt8(type, this.offset);
+    this.writeBytes(data);
+  }
+
+  /**
+   * Encode a value into a standalone buffer (extension payloads)
+   */
+  private nested(value: any): Buffer {
+    const encoder = new Encoder();
+    encoder.encode(value);
+    return encoder.toBuffer();
+  }
+
+  private writeUInt8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) {
+      return;
+    }
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+    this.buffer.copy(next, 0, 0, this.offset);
+    this.buffer = next;
+  }
+}
+
+/**
+ * MessagePack decoder over a single buffer
+ */
+class Decoder {
+  private offset: number = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  decode(): any {
+    const byte = this.readUInt8();
+
+    // Fixed-size formats
+    if (byte < 0x80) {
+      return byte;
+    }
+    if (byte >= 0xe0) {
+      return byte - 0x100;
+    }
+    if (byte >= 0x80 && byte <= 0x8f) {
+      return this.readObject(byte & 0x0f);
+    }
+    if (byte >= 0x90 && byte <= 0x9f) {
+      return this.readArray(byte & 0x0f);
+    }
+    if (byte >= 0xa0 && byte <= 0xbf) {
+      return this.readString(byte & 0x1f);
+    }
+
+    switch (byte) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return this.readBinary(this.readUInt8());
+      case 0xc5:
+        return this.readBinary(this.readUInt16());
+      case 0xc6:
+        return this.readBinary(this.readUInt32());
+      case 0xc7:
+        return this.readExt(this.readUInt8());
+      case 0xc8:
+        return this.readExt(this.readUInt16());
+      case 0xc9:
+        return this.readExt(this.readUInt32());
+      case 0xca:
+        return this.read(4, (offset) => this.buffer.readFloatBE(offset));
+      case 0xcb:
+        return this.read(8, (offset) => this.buffer.readDoubleBE(offset));
+      case 0xcc:
+        return this.readUInt8();
+      case 0xcd:
+        return this.readUInt16();
+      case 0xce:
+        return this.readUInt32();
+      case 0xcf:
+        return this.read(8, (offset) => this.buffer.readBigUInt64BE(offset));
+      case 0xd0:
+        return this.read(1, (offset) => this.buffer.readInt8(offset));
+      case 0xd1:
+        return this.read(2, (offset) => this.buffer.readInt16BE(offset));
+      case 0xd2:
+        return this.read(4, (offset) => this.buffer.readInt32BE(offset));
+      case 0xd3:
+        return this.read(8, (offset) => this.buffer.readBigInt64BE(offset));
+      case 0xd4:
+        return this.readExt(1);
+      case 0xd5:
+        return this.readExt(2);
+      case 0xd6:
+        return this.readExt(4);
+      case 0xd7:
+        return this.readExt(8);
+      case 0xd8:
+        return this.readExt(16);
+      case 0xd9:
+        return this.readString(this.readUInt8());
+      case 0xda:
+        return this.readString(this.readUInt16());
+      case 0xdb:
+        return this.readString(this.readUInt32());
+      case 0xdc:
+        return this.readArray(this.readUInt16());
+      case 0xdd:
+        return this.readArray(this.readUInt32());
+      case 0xde:
+        return this.readObject(this.readUInt16());
+      case 0xdf:
+        return this.readObject(this.readUInt32());
+      default:
+        throw new Error(`Unknown MessagePack type: 0x${byte.toString(16)}`);
+    }
+  }
+
+  private readArray(length: number): any[] {
+    const result = new Array(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = this.decode();
+    }
+    return result;
+  }
+
+  private readObject(length: number): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(this.decode());
+      // Define rather than assign so a "__proto__" key can't replace the prototype
+      Object.defineProperty(result, key, {
+        value: this.decode(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  private readString(length: number): string {
+    return this.buffer.toString('utf8', this.offset, this.advance(length));
+  }
+
+  private readBinary(length: number): Buffer {
+    return Buffer.from(this.buffer.subarray(this.offset, this.advance(length)));
+  }
+
+  private readExt(length: number): any {
+    const type = this.read(1, (offset) => this.buffer.readInt8(offset));
+    const data = this.buffer.subarray(this.offset, this.advance(length));
+
+    switch (type) {
+      case EXT_TIMESTAMP:
+        return decodeTimestamp(data);
+      case EXT_MAP:
+        return new Map(new Decoder(data).decode());
+      case EXT_SET:
+        return new Set(new Decoder(data).decode());
+      case EXT_UNDEFINED:
+        return undefined;
+      case EXT_BIGINT:
+        return BigInt(data.toString('utf8'));
+      case EXT_INVALID_DATE:
+        return new Date(NaN);
+      default:
+        throw new Error(`Unknown MessagePack extension type: ${type}`);
+    }
+  }
+
+  private readUInt8(): number {
+    return this.read(1, (offset) => this.buffer.readUInt8(offset));
+  }
+
+  private readUInt16(): number {
+    return this.read(2, (offset) => this.buffer.readUInt16BE(offset));
+  }
+
+  private readUInt32(): number {
+    return this.read(4, (offset) => this.buffer.readUInt32BE(offset));
+  }
+
+  private read<T>(size: number, reader: (offset: number) => T): T {
+    const value = reader(this.offset);
+    this.advance(size);
+    return value;
+  }
+
+  /**
+   * Move past size bytes
+   * @returns New offset
+   */
+  private advance(size: number): number {
+    if (this.offset + size > this.buffer.length) {
+      throw new Error('Unexpected end of MessagePack data');
+    }
+    this.offset += size;
+    return this.offset;
+  }
+}
+
+/**
+ * Decode the three timestamp extension layouts (32, 64 and 96 bit)
+ */
+function decodeTimestamp(data: Buffer): Date {
+  switch (data.length) {
+    case 4:
+      return new Date(data.readUInt32BE(0) * 1000);
+    case 8: {
+      const high = data.readUInt32BE(0);
+      const low = data.readUInt32BE(4);
+      const nanoseconds = high >>> 2;
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    case 12: {
+      const nanoseconds = data.readUInt32BE(0);
+      const seconds = Number(data.readBigInt64BE(4));
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    default:
+      throw new Error(`Invalid timestamp length: ${data.length}`);
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { TracingConfig } from '../core/interfaces';
+
+/**
+ * Tracer name reported to OpenTelemetry
+ */
+const TRACER_NAME = 'turbocache-js';
+
+/**
+ * SpanStatusCode.ERROR in @opentelemetry/api
+ */
+const STATUS_ERROR = 2;
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Subset of the OpenTelemetry Span used by TurboCache
+ */
+export interface CacheSpan {
+  setAttribute(name: string, value: SpanAttributeValue): void;
+}
+
+export interface CacheSpanOptions {
+  key?: string | string[]; // recorded as cache.key (redacted if configured), or cache.key_count
+  attributes?: SpanAttributes;
+}
+
+const NOOP_SPAN: CacheSpan = {
+  setAttribute: () => undefined,
+};
+
+/**
+ * OpenTelemetry API, or null if @opentelemetry/api isn't installed
+ */
+let otel: any | null | undefined;
+
+/**
+ * Spans started by a CacheTracer - adapters only annotate these
+ */
+const cacheSpans = new WeakSet<object>();
+
+/**
+ * Creates OpenTelemetry spans for cache operations
+ * Spans are children of the caller's active span. Without @opentelemetry/api
+ * (or with tracing disabled) every call is a no-op
+ */
+export class CacheTracer {
+  private readonly tracer: any | null;
+  private readonly redactKeys: TracingConfig['redactKeys'];
+
+  constructor(
+    config: TracingConfig = {},
+    private readonly baseAttributes: SpanAttributes = {},
+  ) {
+    const api = config.enabled === false ? null : loadOpenTelemetry();
+    this.tracer = api ? api.trace.getTracer(TRACER_NAME) : null;
+    this.redactKeys = config.redactKeys ?? false;
+  }
+
+  /**
+   * Run fn in an active span, ending it when fn settles
+   * Errors are recorded on the span and rethrown
+   */
+  async trace<T>(
+    name: string,
+    options: CacheSpanOptions,
+    fn: (span: CacheSpan) => Promise<T>,
+  ): Promise<T> {
+    if (!this.tracer) {
+      return fn(NOOP_SPAN);
+    }
+
+    const attributes = {
+      ...this.baseAttributes,
+      ...this.keyAttributes(options.key),
+      ...options.attributes,
+    };
+
+    return this.tracer.startActiveSpan(
+      name,
+      { attributes: definedAttributes(attributes) },
+      async (span: any) => {
+        cacheSpans.add(span);
+        try {
+          return await fn(span);
+        } catch (error) {
+          span.recordException(error);
+          span.setStatus({ code: STATUS_ERROR, message: (error as Error)?.message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+
+  private keyAttributes(key?: string | string[]): SpanAttributes {
+    if (key === undefined) {
+      return {};
+    }
+    if (Array.isArray(key)) {
+      return { 'cache.key_count': key.length };
+    }
+    return { 'cache.key': this.redact(key) };
+  }
+
+  private redact(key: string): string {
+    if (typeof this.redactKeys === 'function') {
+      return this.redactKeys(key);
+    }
+    // Hashed keys still correlate spans for the same key
+    return this.redactKeys
+      ? `sha256:${createHash('sha256').update(key).digest('hex').slice(0, 16)}`
+      : key;
+  }
+}
+
+/**
+ * Set an attribute on the active span if it is a cache span
+ * Lets adapters annotate the CacheManager span (e.g. the tier a value came from)
+ */
+export function setActiveSpanAttribute(name: string, value: SpanAttributeValue): void {
+  const span = otel?.trace.getActiveSpan();
+  if (span && cacheSpans.has(span)) {
+    span.setAttribute(name, value);
+  }
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  const result: Record<string, SpanAttributeValue> = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Load the optional @opentelemetry/api dependency once
+ */
+function loadOpenTelemetry(): any | null {
+  if (otel === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      otel = require('@opentelemetry/api');
+    } catch {
+      otel = null;
+    }
+  }
+  return otel;
+}
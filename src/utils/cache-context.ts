@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Context of the decorated method a cache operation runs for
+ */
+export interface CacheContext {
+  method: string; // e.g. 'UserService.getUser'
+  internal?: boolean; // housekeeping reads and writes, not counted as cache traffic
+}
+
+const storage = new AsyncLocalStorage<CacheContext>();
+
+/**
+ * Run cache operations for a decorated method
+ * Adapters read the context to label metrics with the method name
+ */
+export function runInCacheContext<T>(context: CacheContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run code outside any cache context
+ * Used for the decorated method body, so cache calls it makes aren't attributed to it
+ */
+export function runOutsideCacheContext<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
+
+/**
+ * Run housekeeping cache operations (health probes, stampede lock polls)
+ * Metrics skip them so hit ratios reflect application traffic
+ */
+export function runInternalCacheOperation<T>(fn: () => T): T {
+  return storage.run({ method: getCacheContext()?.method ?? '', internal: true }, fn);
+}
+
+/**
+ * Context of the current cache operation, if any
+ */
+export function getCacheContext(): CacheContext | undefined {
+  return storage.getStore();
+}
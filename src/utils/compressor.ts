@@ -0,0 +1,158 @@
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import {
+  CompressionAlgorithm,
+  CompressionConfig,
+  CompressionStats,
+  CacheError,
+  CacheErrorCode,
+} from '../core/interfaces';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/**
+ * Default minimum size (bytes) for a value to be compressed
+ */
+const DEFAULT_THRESHOLD = 1024;
+
+/**
+ * Compresses serialized cache values above a size threshold
+ * Decompression works regardless of config so that entries written with
+ * compression enabled stay readable after it is disabled
+ */
+export class Compressor {
+  private readonly enabled: boolean;
+  private readonly threshold: number;
+  private readonly algorithm: CompressionAlgorithm;
+  private compressed: number = 0;
+  private skipped: number = 0;
+  private bytesIn: number = 0;
+  private bytesOut: number = 0;
+  private compressTime: number = 0;
+  private decompressTime: number = 0;
+
+  constructor(config: CompressionConfig = { enabled: false }) {
+    this.enabled = config.enabled;
+    this.threshold = config.threshold ?? DEFAULT_THRESHOLD;
+    this.algorithm = config.algorithm || 'gzip';
+  }
+
+  /**
+   * Algorithm used for new writes
+   */
+  get activeAlgorithm(): CompressionAlgorithm {
+    return this.algorithm;
+  }
+
+  /**
+   * Compress data if enabled, above threshold and actually smaller
+   * @returns Compressed data, or null if the value should be stored as-is
+   */
+  async compress(data: Buffer): Promise<Buffer | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    if (data.length < this.threshold) {
+      this.skipped++;
+      return null;
+    }
+
+    const start = performance.now();
+    const output = await this.run(this.algorithm, 'compress', data);
+    this.compressTime += performance.now() - start;
+
+    if (output.length >= data.length) {
+      this.skipped++;
+      return null;
+    }
+
+    this.compressed++;
+    this.bytesIn += data.length;
+    this.bytesOut += output.length;
+    return output;
+  }
+
+  /**
+   * Decompress data written with the given algorithm
+   */
+  async decompress(data: Buffer, algorithm: CompressionAlgorithm): Promise<Buffer> {
+    const start = performance.now();
+    const output = await this.run(algorithm, 'decompress', data);
+    this.decompressTime += performance.now() - start;
+    return output;
+  }
+
+  /**
+   * Get compression statistics
+   */
+  stats(): CompressionStats {
+    return {
+      algorithm: this.algorithm,
+      compressed: this.compressed,
+      skipped: this.skipped,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      ratio: this.bytesIn > 0 ? this.bytesOut / this.bytesIn : 1,
+      compressTime: this.compressTime,
+      decompressTime: this.decompressTime,
+    };
+  }
+
+  private async run(
+    algorithm: CompressionAlgorithm,
+    direction: 'compress' | 'decompress',
+    data: Buffer,
+  ): Promise<Buffer> {
+    try {
+      switch (algorithm) {
+        case 'gzip':
+          return direction === 'compress' ? await gzip(data) : await gunzip(data);
+
+        case 'brotli':
+          return direction === 'compress'
+            ? await brotliCompress(data)
+            : await brotliDecompress(data);
+
+        case 'lz4': {
+          const lz4 = loadLz4();
+          return Buffer.from(direction === 'compress' ? lz4.compress(data) : lz4.decompress(data));
+        }
+
+        default:
+          throw new Error(`Unsupported compression algorithm: ${algorithm}`);
+      }
+    } catch (error) {
+      if (error instanceof CacheError) {
+        throw error;
+      }
+      throw new CacheError(
+        `Failed to ${direction} value with ${algorithm}`,
+        CacheErrorCode.SERIALIZATION_ERROR,
+        error as Error,
+      );
+    }
+  }
+}
+
+/**
+ * Load the optional lz4js dependency
+ */
+function loadLz4(): {
+  compress(data: Uint8Array): Uint8Array;
+  decompress(data: Uint8Array): Uint8Array;
+} {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('lz4js');
+  } catch (error) {
+    throw new CacheError(
+      'lz4 compression requires the "lz4js" package. Install it with: npm install lz4js',
+      CacheErrorCode.ADAPTER_ERROR,
+      error as Error,
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { EncryptionConfig, CacheError, CacheErrorCode } from '../core/interfaces';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Metadata stored next to an encrypted value
+ */
+export interface EncryptionHeader {
+  keyId: string;
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+}
+
+/**
+ * Authenticated encryption (AES-256-GCM) of serialized cache values
+ * Writes use the active key; reads use whichever key the entry was written with,
+ * so old keys stay valid for reads while they remain configured
+ */
+export class Encryptor {
+  private readonly enabled: boolean;
+  private readonly keys: Map<string, Buffer>;
+  private readonly activeKeyId: string;
+
+  constructor(config: EncryptionConfig) {
+    this.enabled = config.enabled;
+    this.keys = new Map();
+
+    for (const [keyId, key] of Object.entries(config.keys)) {
+      const buffer = Buffer.isBuffer(key) ? key : Buffer.from(key, 'base64');
+      if (buffer.length !== KEY_LENGTH) {
+        throw new Error(`Encryption key "${keyId}" must be ${KEY_LENGTH} bytes`);
+      }
+      this.keys.set(keyId, buffer);
+    }
+
+    const activeKeyId = config.activeKeyId ?? this.keys.keys().next().value;
+    if (!activeKeyId || !this.keys.has(activeKeyId)) {
+      throw new Error(`Active encryption key "${activeKeyId ?? ''}" is not configured`);
+    }
+    this.activeKeyId = activeKeyId;
+  }
+
+  /**
+   * Whether new writes are encrypted
+   */
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Encrypt data with the active key
+   * @param aad - Additional authenticated data (binds ciphertext to its cache key)
+   */
+  encrypt(data: Buffer, aad: string): { data: Buffer; header: EncryptionHeader } {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.keys.get(this.activeKeyId)!, iv);
+    cipher.setAAD(Buffer.from(aad));
+
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+    return {
+      data: encrypted,
+      header: {
+        keyId: this.activeKeyId,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+      },
+    };
+  }
+
+  /**
+   * Decrypt data with the key it was written with
+   * @throws CacheError with DECRYPTION_ERROR if the key is unknown or authentication fails
+   */
+  decrypt(data: Buffer, header: EncryptionHeader, aad: string): Buffer {
+    const key = this.keys.get(header.keyId);
+    if (!key) {
+      throw new CacheError(
+        `Unknown encryption key: ${header.keyId}`,
+        CacheErrorCode.DECRYPTION_ERROR,
+      );
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(header.iv, 'base64'));
+      decipher.setAAD(Buffer.from(aad));
+      decipher.setAuthTag(Buffer.from(header.tag, 'base64'));
+      return Buffer.concat([decipher.update(data), decipher.final()]);
+    } catch (error) {
+      throw new CacheError(
+        `Failed to decrypt value with key: ${header.keyId}`,
+        CacheErrorCode.DECRYPTION_ERROR,
+        error as Error,
+      );
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Number of hash rows (counters per key)
+ */
+const DEPTH = 4;
+
+/**
+ * Maximum counter value (4-bit counters, as in TinyLFU)
+ */
+const MAX_COUNT = 15;
+
+/**
+ * Count-Min sketch estimating how often keys were accessed
+ * Counters are halved after a sample period so old popularity fades
+ */
+export class FrequencySketch {
+  private readonly table: Uint8Array;
+  private readonly mask: number;
+  private readonly sampleSize: number;
+  private additions: number = 0;
+
+  /**
+   * @param capacity - Expected number of distinct keys (cache capacity)
+   */
+  constructor(capacity: number) {
+    const width = nextPowerOfTwo(Math.max(capacity, 16));
+    this.table = new Uint8Array(width * DEPTH);
+    this.mask = width - 1;
+    this.sampleSize = capacity * 10;
+  }
+
+  /**
+   * Estimated access count (0-15)
+   */
+  frequency(key: string): number {
+    let min = MAX_COUNT;
+    this.forEachCounter(key, (index) => {
+      min = Math.min(min, this.table[index]);
+    });
+    return min;
+  }
+
+  /**
+   * Record an access
+   */
+  increment(key: string): void {
+    let added = false;
+    this.forEachCounter(key, (index) => {
+      if (this.table[index] < MAX_COUNT) {
+        this.table[index]++;
+        added = true;
+      }
+    });
+
+    if (added && ++this.additions >= this.sampleSize) {
+      this.reset();
+    }
+  }
+
+  /**
+   * Halve all counters (aging)
+   */
+  private reset(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  /**
+   * Visit the counter for the key in each row (double hashing)
+   */
+  private forEachCounter(key: string, visit: (index: number) => void): void {
+    const h1 = hash(key, 0x811c9dc5);
+    const h2 = hash(key, 0x01000193) | 1;
+    const width = this.mask + 1;
+
+    for (let row = 0; row < DEPTH; row++) {
+      visit(row * width + ((h1 + row * h2) & this.mask));
+    }
+  }
+}
+
+/**
+ * FNV-1a string hash
+ */
+function hash(key: string, seed: number): number {
+  let h = seed;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  return 2 ** Math.ceil(Math.log2(value));
+}
@@ -0,0 +1,103 @@
+/**
+ * Convert a key glob pattern to a regex, with the same semantics as Redis
+ * - `*` matches any run of characters, `?` any single character
+ * - `[abc]`, `[a-z]` and `[^abc]` match a character in (or not in) the set
+ * - `\` matches the next character literally
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '[') {
+      const set = parseSet(pattern, i);
+      if (set) {
+        source += set.source;
+        i = set.end;
+      } else {
+        // Unterminated set - match the bracket literally
+        source += '\\[';
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  // Keys may contain newlines - let . match them too
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Literal text that every key matching pattern starts with
+ * Lets stores with ordered keys seek straight to the candidates
+ */
+export function globPrefix(pattern: string): string {
+  let prefix = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' || char === '?' || char === '[') {
+      break;
+    }
+    prefix += char === '\\' && i + 1 < pattern.length ? pattern[++i] : char;
+  }
+
+  return prefix;
+}
+
+/**
+ * Parse a [...] set starting at pattern[start]
+ * @returns Regex character class and index of the closing ], or null if unterminated
+ */
+function parseSet(pattern: string, start: number): { source: string; end: number } | null {
+  let i = start + 1;
+  const negate = pattern[i] === '^';
+  if (negate) {
+    i++;
+  }
+
+  let body = '';
+  for (; i < pattern.length && pattern[i] !== ']'; i++) {
+    let from = pattern[i];
+    if (from === '\\' && i + 1 < pattern.length) {
+      from = pattern[++i];
+    }
+
+    // A - between two characters is a range; anywhere else it is literal
+    if (pattern[i + 1] !== '-' || i + 2 >= pattern.length || pattern[i + 2] === ']') {
+      body += escapeSetChar(from);
+      continue;
+    }
+
+    i += 2;
+    let to = pattern[i];
+    if (to === '\\' && i + 1 < pattern.length) {
+      to = pattern[++i];
+    }
+    // Redis swaps the bounds of reversed ranges like [z-a]
+    if (from > to) {
+      [from, to] = [to, from];
+    }
+    body += `${escapeSetChar(from)}-${escapeSetChar(to)}`;
+  }
+
+  if (i >= pattern.length) {
+    return null;
+  }
+  return { source: `[${negate ? '^' : ''}${body}]`, end: i };
+}
+
+function escapeSetChar(char: string): string {
+  return char.replace(/[\\\][^-]/, '\\$&');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import {
+  AdapterHealth,
+  CacheError,
+  CacheErrorCode,
+  HealthStatus,
+  ICacheAdapter,
+} from '../core/interfaces';
+import { runInternalCacheOperation } from './cache-context';
+
+/**
+ * Default time allowed for the probe (ms)
+ * Clients like ioredis queue commands while disconnected, so probes must time out
+ */
+const DEFAULT_PROBE_TIMEOUT = 2000;
+
+/**
+ * Prefix for probe keys
+ */
+const PROBE_PREFIX = '__health__:';
+
+/**
+ * Checks an adapter with ping(), or by writing, reading and deleting a probe
+ * key when the adapter has no ping()
+ * Remembers the last failure so it is still reported after recovery
+ */
+export class HealthProbe {
+  private lastError?: string;
+  private lastErrorAt?: number;
+
+  constructor(
+    private readonly adapter: ICacheAdapter,
+    private readonly timeout: number = DEFAULT_PROBE_TIMEOUT,
+  ) {}
+
+  async check(): Promise<AdapterHealth> {
+    const start = performance.now();
+
+    try {
+      await this.withTimeout(runInternalCacheOperation(() => this.probe()));
+      return this.result(true, performance.now() - start);
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      this.lastErrorAt = Date.now();
+      return this.result(false, performance.now() - start);
+    }
+  }
+
+  /**
+   * Prefer ping() - probe writes would count against the adapter's size
+   * budget and could evict live entries
+   */
+  private async probe(): Promise<void> {
+    if (this.adapter.ping) {
+      await this.adapter.ping();
+      return;
+    }
+    await this.roundTrip();
+  }
+
+  private async roundTrip(): Promise<void> {
+    const key = PROBE_PREFIX + randomUUID();
+    const value = Date.now();
+
+    await this.adapter.set(key, value, 10);
+    const read = await this.adapter.get<number>(key);
+    await this.adapter.delete(key);
+
+    if (read !== value) {
+      throw new CacheError(
+        'Health probe read back a different value',
+        CacheErrorCode.ADAPTER_ERROR,
+      );
+    }
+  }
+
+  private async withTimeout(probe: Promise<void>): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const error = new CacheError(
+      `Health probe timed out after ${this.timeout}ms`,
+      CacheErrorCode.TIMEOUT,
+    );
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(error), this.timeout);
+    });
+
+    try {
+      await Promise.race([probe, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private result(reachable: boolean, latency: number): AdapterHealth {
+    return {
+      status: reachable ? 'up' : 'down',
+      reachable,
+      latency,
+      ...(this.lastError ? { lastError: this.lastError, lastErrorAt: this.lastErrorAt } : {}),
+    };
+  }
+}
+
+/**
+ * Worst of several statuses (up < degraded < down)
+ */
+export function worstHealthStatus(statuses: HealthStatus[]): HealthStatus {
+  if (statuses.includes('down')) {
+    return 'down';
+  }
+  return statuses.includes('degraded') ? 'degraded' : 'up';
+}
@@ -1 +1,9 @@
 export * from './key-generator';
+export * from './compressor';
+export * from './encryptor';
+export * from './health-probe';
+export * from './cache-context';
+export * from './logger';
+export * from './stats-recorder';
+export * from './glob';
+export * from './scan';
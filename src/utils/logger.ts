@@ -0,0 +1,139 @@
+import { ILogger, LogLevel, LoggingConfig, CacheError } from '../core/interfaces';
+
+/**
+ * Default minimum level
+ */
+const DEFAULT_LEVEL: LogLevel = 'warn';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Fields holding cache keys, masked unless includeKeys is set
+ */
+const KEY_FIELDS = new Set(['key', 'keys', 'pattern']);
+
+const REDACTED = '[redacted]';
+
+/**
+ * Structured fields attached to a log message
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger used by TurboCache internals
+ * Filters by level, formats as text or JSON, masks cache keys unless
+ * includeKeys is set, and writes to the configured logger (console by default)
+ */
+export class CacheLogger {
+  private readonly level: number;
+  private readonly includeKeys: boolean;
+  private readonly format: 'json' | 'text';
+  private readonly sink: ILogger;
+
+  constructor(config: LoggingConfig = {}) {
+    this.level = LEVEL_ORDER[config.level ?? DEFAULT_LEVEL];
+    this.includeKeys = config.includeKeys ?? false;
+    this.format = config.format ?? 'text';
+    this.sink = config.logger ?? console;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= this.level;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const data = this.redact(fields);
+    const stack = data.error instanceof Error ? data.error.stack : undefined;
+
+    if (this.format === 'json') {
+      const entry = { level, message, ...data, time: new Date().toISOString() };
+      this.emit(level, JSON.stringify(entry, jsonReplacer));
+      return;
+    }
+
+    const line = [
+      message,
+      ...Object.entries(data).map(([name, value]) => formatField(name, value)),
+    ];
+    // Error stacks go to the sink separately, as NestJS Logger.error expects
+    this.emit(level, line.join(' '), level === 'error' ? stack : undefined);
+  }
+
+  private emit(level: LogLevel, line: string, stack?: string): void {
+    switch (level) {
+      case 'debug':
+        return this.sink.debug ? this.sink.debug(line) : this.sink.log(line);
+      case 'info':
+        return this.sink.log(line);
+      case 'warn':
+        return this.sink.warn(line);
+      case 'error':
+        return stack ? this.sink.error(line, stack) : this.sink.error(line);
+    }
+  }
+
+  private redact(fields: LogFields): LogFields {
+    if (this.includeKeys) {
+      return fields;
+    }
+
+    const result: LogFields = {};
+    for (const [name, value] of Object.entries(fields)) {
+      result[name] = KEY_FIELDS.has(name) && value !== undefined ? REDACTED : value;
+    }
+    return result;
+  }
+}
+
+/**
+ * Logger used when none is configured (console, warnings and errors only)
+ */
+export const defaultLogger = new CacheLogger();
+
+function formatField(name: string, value: unknown): string {
+  if (value instanceof Error) {
+    return `${name}=${JSON.stringify(value.message)}`;
+  }
+  const text =
+    typeof value === 'string'
+      ? value
+      : Array.isArray(value)
+        ? value.join(',')
+        : JSON.stringify(value, jsonReplacer);
+  return /[\s"=]/.test(text) ? `${name}=${JSON.stringify(text)}` : `${name}=${text}`;
+}
+
+/**
+ * Serialize errors (including CacheError codes) in JSON output
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(value instanceof CacheError ? { code: value.code, cause: value.cause } : {}),
+      stack: value.stack,
+    };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
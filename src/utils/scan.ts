@@ -0,0 +1,44 @@
+import { ICacheAdapter, ScanOptions } from '../core/interfaces';
+
+/**
+ * Default number of keys per scan batch
+ */
+export const DEFAULT_SCAN_BATCH_SIZE = 100;
+
+/**
+ * Group keys into batches of at most size keys
+ */
+export async function* batchKeys(
+  keys: AsyncIterable<string> | Iterable<string>,
+  size: number = DEFAULT_SCAN_BATCH_SIZE,
+): AsyncGenerator<string[]> {
+  let batch: string[] = [];
+
+  for await (const key of keys) {
+    batch.push(key);
+    if (batch.length >= size) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Scan an adapter's keys, falling back to keys() for adapters without scan()
+ */
+export async function* scanAdapter(
+  adapter: ICacheAdapter,
+  pattern?: string,
+  options: ScanOptions = {},
+): AsyncGenerator<string[]> {
+  if (adapter.scan) {
+    yield* adapter.scan(pattern, options);
+    return;
+  }
+
+  yield* batchKeys(await adapter.keys(pattern), options.batchSize);
+}
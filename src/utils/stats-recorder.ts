@@ -0,0 +1,182 @@
+import { HitRatioStats, LatencyStats, StatsConfig, StatsWindow } from '../core/interfaces';
+
+/**
+ * Default number of latency samples kept per operation
+ */
+const DEFAULT_LATENCY_SAMPLES = 1024;
+
+/**
+ * Default maximum number of prefixes (and methods) tracked separately
+ */
+const DEFAULT_MAX_GROUPS = 1000;
+
+/**
+ * Group for prefixes or methods beyond maxGroups
+ */
+const OTHER_GROUP = '(other)';
+
+interface HitCounts {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Records hit ratios by key prefix and decorated method, and operation latency,
+ * for the current stats window
+ */
+export class CacheStatsRecorder {
+  private readonly separator: string;
+  private readonly maxGroups: number;
+  private readonly latencySamples: number;
+  private since: number = Date.now();
+  private readonly lookups: HitCounts = { hits: 0, misses: 0 };
+  private readonly byPrefix: Map<string, HitCounts> = new Map();
+  private readonly byMethod: Map<string, HitCounts> = new Map();
+  private readonly latency: Map<string, LatencyReservoir> = new Map();
+
+  constructor(config: StatsConfig = {}) {
+    this.separator = config.prefixSeparator ?? ':';
+    this.maxGroups = config.maxGroups ?? DEFAULT_MAX_GROUPS;
+    this.latencySamples = config.latencySamples ?? DEFAULT_LATENCY_SAMPLES;
+  }
+
+  /**
+   * @param method - Decorated method the lookup ran for, if any
+   */
+  recordLookup(key: string, hit: boolean, method?: string): void {
+    count(this.lookups, hit);
+    count(this.group(this.byPrefix, this.prefixOf(key)), hit);
+    if (method) {
+      count(this.group(this.byMethod, method), hit);
+    }
+  }
+
+  /**
+   * @param ms - Operation duration in milliseconds
+   */
+  recordLatency(operation: string, ms: number): void {
+    let reservoir = this.latency.get(operation);
+    if (!reservoir) {
+      reservoir = new LatencyReservoir(this.latencySamples);
+      this.latency.set(operation, reservoir);
+    }
+    reservoir.add(ms);
+  }
+
+  snapshot(): StatsWindow {
+    return {
+      since: this.since,
+      lookups: hitRatio(this.lookups),
+      byPrefix: mapValues(this.byPrefix, hitRatio),
+      byMethod: mapValues(this.byMethod, hitRatio),
+      latency: mapValues(this.latency, (reservoir) => reservoir.stats()),
+    };
+  }
+
+  /**
+   * Start a new window
+   */
+  reset(): void {
+    this.since = Date.now();
+    this.lookups.hits = 0;
+    this.lookups.misses = 0;
+    this.byPrefix.clear();
+    this.byMethod.clear();
+    this.latency.clear();
+  }
+
+  /**
+   * Key up to the first separator, or the whole key if it has none
+   */
+  private prefixOf(key: string): string {
+    const index = key.indexOf(this.separator);
+    return index > 0 ? key.slice(0, index) : key;
+  }
+
+  /**
+   * Counts for a group, folding new groups into (other) once maxGroups is reached
+   */
+  private group(groups: Map<string, HitCounts>, name: string): HitCounts {
+    let counts = groups.get(name);
+    if (!counts) {
+      const key = groups.size < this.maxGroups ? name : OTHER_GROUP;
+      counts = groups.get(key) ?? { hits: 0, misses: 0 };
+      groups.set(key, counts);
+    }
+    return counts;
+  }
+}
+
+/**
+ * Uniform sample of latencies (reservoir sampling), so percentiles cover the
+ * whole window in bounded memory
+ */
+class LatencyReservoir {
+  private readonly samples: number[] = [];
+  private count: number = 0;
+  private total: number = 0;
+  private max: number = 0;
+
+  constructor(private readonly size: number) {}
+
+  add(ms: number): void {
+    this.count++;
+    this.total += ms;
+    this.max = Math.max(this.max, ms);
+
+    if (this.samples.length < this.size) {
+      this.samples.push(ms);
+      return;
+    }
+
+    const slot = Math.floor(Math.random() * this.count);
+    if (slot < this.size) {
+      this.samples[slot] = ms;
+    }
+  }
+
+  stats(): LatencyStats {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      sorted.length === 0
+        ? 0
+        : sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+    return {
+      count: this.count,
+      mean: round(this.count === 0 ? 0 : this.total / this.count),
+      p50: round(percentile(0.5)),
+      p95: round(percentile(0.95)),
+      p99: round(percentile(0.99)),
+      max: round(this.max),
+    };
+  }
+}
+
+function count(counts: HitCounts, hit: boolean): void {
+  if (hit) {
+    counts.hits++;
+  } else {
+    counts.misses++;
+  }
+}
+
+function hitRatio({ hits, misses }: HitCounts): HitRatioStats {
+  const total = hits + misses;
+  return { hits, misses, hitRatio: total === 0 ? 0 : hits / total };
+}
+
+function mapValues<V, R>(map: Map<string, V>, fn: (value: V) => R): Record<string, R> {
+  const result: Record<string, R> = {};
+  map.forEach((value, key) => {
+    result[key] = fn(value);
+  });
+  return result;
+}
+
+/**
+ * Round to microseconds
+ */
+function round(ms: number): number {
+  return Math.round(ms * 1000) / 1000;
+}
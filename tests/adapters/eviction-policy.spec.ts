@@ -0,0 +1,136 @@
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import {
+  EvictionPolicyName,
+  LfuPolicy,
+  LruPolicy,
+  TinyLfuPolicy,
+  createEvictionPolicy,
+} from '../../src/adapters/eviction-policy';
+
+describe('eviction policies', () => {
+  describe('LruPolicy', () => {
+    it('evicts the least recently used key', () => {
+      const policy = new LruPolicy();
+      ['a', 'b', 'c'].forEach((key) => policy.onInsert(key));
+
+      policy.onAccess('a');
+
+      expect(policy.victim()).toBe('b');
+      policy.onRemove('b');
+      expect(policy.victim()).toBe('c');
+    });
+  });
+
+  describe('LfuPolicy', () => {
+    it('evicts the least frequently used key, oldest first among ties', () => {
+      const policy = new LfuPolicy();
+      ['a', 'b', 'c'].forEach((key) => policy.onInsert(key));
+
+      policy.onAccess('a');
+      policy.onAccess('a');
+      policy.onAccess('c');
+
+      expect(policy.victim()).toBe('b');
+      policy.onRemove('b');
+      expect(policy.victim()).toBe('c');
+    });
+
+    it('stops tracking keys after clear()', () => {
+      const policy = new LfuPolicy();
+      policy.onInsert('a');
+
+      policy.clear();
+
+      expect(policy.victim()).toBeUndefined();
+    });
+  });
+
+  describe('TinyLfuPolicy', () => {
+    it('rejects a one-off key leaving the window in favour of a frequent key', () => {
+      const policy = new TinyLfuPolicy(100);
+      for (let i = 0; i < 99; i++) {
+        policy.onInsert(`hot:${i}`);
+        policy.onAccess(`hot:${i}`);
+      }
+
+      policy.onInsert('cold:1');
+      policy.onInsert('cold:2');
+
+      expect(policy.victim()).toMatch(/^cold:/);
+    });
+  });
+
+  it('rejects unknown policy names', () => {
+    expect(() => createEvictionPolicy('fifo' as EvictionPolicyName, 10)).toThrow(
+      'Unsupported eviction policy: fifo',
+    );
+  });
+
+  describe('MemoryAdapter', () => {
+    it('evicts the least recently read key with lru', async () => {
+      const adapter = new MemoryAdapter({ max: 2, policy: 'lru' });
+      await adapter.set('a', 1);
+      await adapter.set('b', 2);
+      await adapter.get('a');
+
+      await adapter.set('c', 3);
+
+      await expect(adapter.keys()).resolves.toEqual(expect.arrayContaining(['a', 'c']));
+      await expect(adapter.has('b')).resolves.toBe(false);
+    });
+
+    it('evicts the least frequently read key with lfu', async () => {
+      const adapter = new MemoryAdapter({ max: 3, policy: 'lfu' });
+      await adapter.set('a', 1);
+      await adapter.set('b', 2);
+      await adapter.set('c', 3);
+      await adapter.get('a');
+      await adapter.get('a');
+      await adapter.get('c');
+
+      await adapter.set('d', 4);
+
+      await expect(adapter.has('b')).resolves.toBe(false);
+      await expect(adapter.keys()).resolves.toEqual(expect.arrayContaining(['a', 'c', 'd']));
+    });
+
+    it.each<EvictionPolicyName>(['lru', 'lfu', 'tinylfu'])(
+      'counts and reports %s evictions',
+      async (policy) => {
+        const adapter = new MemoryAdapter({ max: 10, policy });
+        const evicted: string[] = [];
+        adapter.onEvent((event) => event.type === 'evict' && evicted.push(event.key));
+
+        for (let i = 0; i < 15; i++) {
+          await adapter.set(`key:${i}`, i);
+        }
+
+        const stats = await adapter.stats();
+        expect(stats.keys).toBe(10);
+        expect(stats.evictions).toBe(5);
+        expect(evicted).toHaveLength(5);
+      },
+    );
+
+    it('keeps frequently used keys through a scan of cold keys with tinylfu', async () => {
+      const hotKeys = Array.from({ length: 20 }, (_, i) => `hot:${i}`);
+      const survivors = async (policy: EvictionPolicyName) => {
+        const adapter = new MemoryAdapter({ max: 100, policy });
+        for (const key of hotKeys) {
+          await adapter.set(key, key);
+          for (let i = 0; i < 5; i++) {
+            await adapter.get(key);
+          }
+        }
+        for (let i = 0; i < 1000; i++) {
+          await adapter.set(`cold:${i}`, i);
+        }
+        const kept = await Promise.all(hotKeys.map((key) => adapter.has(key)));
+        return kept.filter(Boolean).length;
+      };
+
+      await expect(survivors('lru')).resolves.toBe(0);
+      expect(await survivors('tinylfu')).toBeGreaterThanOrEqual(hotKeys.length * 0.8);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FsAdapter } from '../../src/adapters/fs-adapter';
+import { CacheLogger } from '../../src/utils/logger';
+
+describe('FsAdapter', () => {
+  let directory: string;
+  const sink = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  const logger = new CacheLogger({ logger: sink });
+
+  const hash = (text: string) => createHash('sha256').update(text).digest('hex');
+  const entryPath = (key: string) => {
+    const name = hash(key);
+    return join(directory, 'entries', name.slice(0, 2), name.slice(2, 4), name);
+  };
+  const exists = (path: string) =>
+    fs.access(path).then(
+      () => true,
+      () => false,
+    );
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'turbocache-fs-'));
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('maxSize', () => {
+    it('runs one eviction pass at a time when writes run in parallel', async () => {
+      const probe = new FsAdapter({ directory: join(directory, 'probe'), sweepInterval: 0 });
+      await probe.set('key:0', 'x'.repeat(100));
+      const entrySize = (await probe.stats()).memory;
+
+      const adapter = new FsAdapter({ directory, maxSize: entrySize * 5, sweepInterval: 0 });
+      const evicted: string[] = [];
+      adapter.onEvent((event) => evicted.push(event.key));
+
+      // Slow deletes so overlapping eviction passes would show up
+      const unlink = fs.unlink;
+      let running = 0;
+      let maxRunning = 0;
+      jest.spyOn(fs, 'unlink').mockImplementation(async (path) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return unlink(path);
+      });
+
+      const entries = new Map<string, string>();
+      for (let i = 0; i < 10; i++) {
+        entries.set(`key:${i}`, 'x'.repeat(100));
+      }
+      await adapter.mset(entries);
+
+      const stats = await adapter.stats();
+      expect(stats.keys).toBe(5);
+      expect(stats.memory).toBe(entrySize * 5);
+      expect(stats.evictions).toBe(5);
+      expect(new Set(evicted).size).toBe(5);
+      expect(maxRunning).toBe(1);
+    });
+  });
+
+  describe('corrupt files', () => {
+    it('treats an unreadable entry as a miss and deletes it', async () => {
+      const adapter = new FsAdapter({ directory, sweepInterval: 0, logger });
+      await adapter.set('user:1', { name: 'Ada' });
+      await fs.writeFile(entryPath('user:1'), 'garbage');
+
+      await expect(adapter.get('user:1')).resolves.toBeNull();
+
+      await expect(adapter.has('user:1')).resolves.toBe(false);
+      await expect(exists(entryPath('user:1'))).resolves.toBe(false);
+      expect(sink.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('starts with a corrupt tag file, skipping it', async () => {
+      const first = new FsAdapter({ directory, sweepInterval: 0 });
+      await first.set('user:1', 'a');
+      await first.set('post:1', 'b');
+      await first.tagKey('user:1', ['users']);
+      await first.tagKey('post:1', ['posts']);
+      await fs.writeFile(join(directory, 'tags', hash('users')), '{"tag":');
+
+      const adapter = new FsAdapter({ directory, sweepInterval: 0, logger });
+
+      await expect(adapter.get('user:1')).resolves.toBe('a');
+      await expect(adapter.invalidateTags(['posts'])).resolves.toEqual(['post:1']);
+      await expect(adapter.invalidateTags(['users'])).resolves.toEqual([]);
+      await expect(exists(join(directory, 'tags', hash('users')))).resolves.toBe(false);
+      expect(sink.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['without a keys array', '{"tag":"users"}'],
+      ['without a tag', '{"keys":["user:1"]}'],
+      ['holding null', 'null'],
+    ])('starts with a tag file %s, skipping it', async (_case, content) => {
+      await fs.mkdir(join(directory, 'tags'), { recursive: true });
+      await fs.writeFile(join(directory, 'tags', hash('users')), content);
+
+      const adapter = new FsAdapter({ directory, sweepInterval: 0, logger });
+
+      await expect(adapter.invalidateTags(['users'])).resolves.toEqual([]);
+      await expect(exists(join(directory, 'tags', hash('users')))).resolves.toBe(false);
+      expect(sink.warn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
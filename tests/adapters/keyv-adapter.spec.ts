@@ -0,0 +1,67 @@
+import KeyvRedis from '@keyv/redis';
+import Redis from 'ioredis-mock';
+import { KeyvAdapter } from '../../src/adapters/keyv-adapter';
+
+describe('KeyvAdapter', () => {
+  describe('with an in-memory store', () => {
+    let adapter: KeyvAdapter;
+
+    beforeEach(() => {
+      adapter = new KeyvAdapter({ store: new Map(), namespace: 'app' });
+    });
+
+    it('leaves lock and tag entries out of key listings', async () => {
+      await adapter.set('user:1', 'a');
+      await adapter.tagKey('user:1', ['users']);
+      await adapter.acquireLock('report', 5);
+
+      await expect(adapter.keys()).resolves.toEqual(['user:1']);
+    });
+
+    it('clears by pattern while a lock is held', async () => {
+      await adapter.set('user:1', 'a');
+      await adapter.set('post:1', 'b');
+      const token = await adapter.acquireLock('user:report', 5);
+
+      await adapter.clear('user:*');
+
+      await expect(adapter.keys()).resolves.toEqual(['post:1']);
+      await expect(adapter.acquireLock('user:report', 5)).resolves.toBeNull();
+      await adapter.releaseLock('user:report', token!);
+      await expect(adapter.acquireLock('user:report', 5)).resolves.toEqual(expect.any(String));
+    });
+  });
+
+  describe('with a Redis store', () => {
+    let client: InstanceType<typeof Redis>;
+    let adapter: KeyvAdapter;
+
+    beforeEach(async () => {
+      // @keyv/redis only adopts clients whose options carry a family
+      client = new Redis({ family: 4 });
+      await client.flushall();
+      adapter = new KeyvAdapter({ store: new KeyvRedis(client as any), namespace: 'app' });
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    it('lists keys while a lock is held', async () => {
+      await adapter.set('user:1', 'a');
+      await adapter.set('user:2', 'b');
+      await expect(adapter.acquireLock('user:report', 5)).resolves.toEqual(expect.any(String));
+
+      const keys = await adapter.keys('user:*');
+
+      expect(keys.sort()).toEqual(['user:1', 'user:2']);
+    });
+
+    it('skips values that are not Keyv entries', async () => {
+      await adapter.set('user:1', 'a');
+      await client.set('app:user:2', 'not json');
+
+      await expect(adapter.keys()).resolves.toEqual(['user:1']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { KeyvAdapter } from '../../src/adapters/keyv-adapter';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+
+describe('adapter lifecycle', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('MemoryAdapter', () => {
+    it('stops the cleanup timer on close and restarts it on connect', async () => {
+      const setTimer = jest.spyOn(global, 'setInterval');
+      const clearTimer = jest.spyOn(global, 'clearInterval');
+      const adapter = new MemoryAdapter();
+      expect(setTimer).toHaveBeenCalledTimes(1);
+
+      await adapter.close();
+      await adapter.close();
+      expect(clearTimer).toHaveBeenCalledTimes(1);
+
+      await adapter.connect();
+      await adapter.connect();
+      expect(setTimer).toHaveBeenCalledTimes(2);
+      await adapter.close();
+    });
+
+    it('keeps entries across close and connect', async () => {
+      const adapter = new MemoryAdapter();
+      await adapter.set('user:1', 'a');
+
+      await adapter.close();
+      await adapter.connect();
+
+      await expect(adapter.get('user:1')).resolves.toBe('a');
+      await expect(adapter.ping()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('KeyvAdapter', () => {
+    it('disconnects the store on close', async () => {
+      const adapter = new KeyvAdapter({ store: new Map() });
+      const disconnect = jest.spyOn((adapter as any).keyv, 'disconnect');
+
+      await adapter.connect();
+      await adapter.close();
+
+      expect(disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('MultiTierAdapter', () => {
+    const tier = () =>
+      Object.assign(new MemoryAdapter(), {
+        connect: jest.fn().mockResolvedValue(undefined),
+        close: jest.fn().mockResolvedValue(undefined),
+        ping: jest.fn().mockResolvedValue(undefined),
+      });
+
+    it('connects, pings and closes both tiers', async () => {
+      const l1 = tier();
+      const l2 = tier();
+      const adapter = new MultiTierAdapter({ l1, l2 });
+
+      await adapter.connect();
+      await adapter.ping();
+      await adapter.close();
+
+      for (const adapterTier of [l1, l2]) {
+        expect(adapterTier.connect).toHaveBeenCalledTimes(1);
+        expect(adapterTier.ping).toHaveBeenCalledTimes(1);
+        expect(adapterTier.close).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it('fails ping when either tier is unreachable', async () => {
+      const l2 = tier();
+      l2.ping.mockRejectedValue(new Error('connection refused'));
+      const adapter = new MultiTierAdapter({ l1: tier(), l2 });
+
+      await expect(adapter.ping()).rejects.toThrow('connection refused');
+    });
+  });
+});
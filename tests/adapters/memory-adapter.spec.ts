@@ -0,0 +1,70 @@
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheError, CacheErrorCode } from '../../src/core/interfaces';
+
+describe('MemoryAdapter', () => {
+  describe('maxSize', () => {
+    const weigher = (_key: string, value: string) => value.length;
+
+    it('tracks the weighed bytes of stored entries', async () => {
+      const adapter = new MemoryAdapter({ maxSize: 100, weigher });
+
+      await adapter.set('a', 'x'.repeat(10));
+      await adapter.set('b', 'x'.repeat(20));
+      await adapter.set('a', 'x'.repeat(5));
+      await adapter.delete('b');
+
+      await expect(adapter.stats()).resolves.toEqual(expect.objectContaining({ memory: 5 }));
+    });
+
+    it('evicts until the stored bytes fit the budget', async () => {
+      const adapter = new MemoryAdapter({ maxSize: 100, weigher });
+      await adapter.set('a', 'x'.repeat(40));
+      await adapter.set('b', 'x'.repeat(40));
+
+      await adapter.set('c', 'x'.repeat(60));
+
+      const stats = await adapter.stats();
+      expect(stats.memory).toBe(100);
+      expect(stats.evictions).toBe(1);
+      await expect(adapter.has('a')).resolves.toBe(false);
+      await expect(adapter.keys()).resolves.toEqual(expect.arrayContaining(['b', 'c']));
+    });
+
+    it('rejects a value larger than the whole budget and drops the old value', async () => {
+      const adapter = new MemoryAdapter({ maxSize: 100, weigher });
+      await adapter.set('a', 'small');
+
+      const error = await adapter.set('a', 'x'.repeat(101)).catch((err) => err);
+
+      expect(error).toBeInstanceOf(CacheError);
+      expect(error.code).toBe(CacheErrorCode.VALUE_TOO_LARGE);
+      await expect(adapter.get('a')).resolves.toBeNull();
+      await expect(adapter.stats()).resolves.toEqual(expect.objectContaining({ memory: 0 }));
+    });
+
+    it('estimates entry sizes without a weigher', async () => {
+      const adapter = new MemoryAdapter();
+
+      await adapter.set('short', 'x');
+      const small = (await adapter.stats()).memory;
+      await adapter.set('long', 'x'.repeat(1000));
+
+      expect(small).toBeGreaterThan(0);
+      expect((await adapter.stats()).memory - small).toBeGreaterThan(1000);
+    });
+
+    it('still returns computed values from wrap() when they are too large to cache', async () => {
+      const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const cache = new CacheManager(new MemoryAdapter({ maxSize: 200 }), {
+        stores: [],
+        logging: { logger },
+      });
+      const large = 'x'.repeat(1000);
+
+      await expect(cache.wrap('report', async () => large)).resolves.toBe(large);
+      await expect(cache.get('report')).resolves.toBeNull();
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+  });
+});
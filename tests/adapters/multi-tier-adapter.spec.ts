@@ -0,0 +1,67 @@
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+import { IInvalidationBus } from '../../src/core/interfaces';
+import { LocalInvalidationBus } from '../../src/invalidation/local-invalidation-bus';
+
+describe('MultiTierAdapter', () => {
+  describe('invalidation bus', () => {
+    let l2: MemoryAdapter;
+    let localL1: MemoryAdapter;
+    let local: MultiTierAdapter;
+    let peer: MultiTierAdapter;
+    let channel: string;
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(async () => {
+      channel = `test-${Math.random()}`;
+      l2 = new MemoryAdapter();
+      localL1 = new MemoryAdapter();
+      local = new MultiTierAdapter({ l1: localL1, l2, bus: new LocalInvalidationBus(channel) });
+      peer = new MultiTierAdapter({
+        l1: new MemoryAdapter(),
+        l2,
+        bus: new LocalInvalidationBus(channel),
+      });
+      await Promise.all([local.connect(), peer.connect()]);
+
+      await peer.set('user:1', 'a');
+      await expect(local.get('user:1')).resolves.toBe('a');
+    });
+
+    it('drops the local L1 copy when a peer deletes a key', async () => {
+      await peer.delete('user:1');
+      await flush();
+
+      await expect(localL1.get('user:1')).resolves.toBeNull();
+    });
+
+    it('still receives peer deletes after a close/connect cycle', async () => {
+      await local.close();
+      await local.connect();
+      await local.get('user:1');
+
+      await peer.delete('user:1');
+      await flush();
+
+      await expect(localL1.get('user:1')).resolves.toBeNull();
+    });
+
+    it('subscribes once however often connect() is called', async () => {
+      const bus: IInvalidationBus = {
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue(undefined),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      const adapter = new MultiTierAdapter({ l1: new MemoryAdapter(), l2, bus });
+
+      await adapter.connect();
+      await adapter.connect();
+      expect(bus.subscribe).toHaveBeenCalledTimes(1);
+
+      await adapter.close();
+      await adapter.connect();
+      expect(bus.subscribe).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import Redis from 'ioredis-mock';
+import { RedisAdapter } from '../../src/adapters/redis-adapter';
+
+describe('RedisAdapter', () => {
+  let client: InstanceType<typeof Redis>;
+  let adapter: RedisAdapter;
+
+  const collect = async (batches: AsyncIterable<string[]>) => {
+    const result: string[][] = [];
+    for await (const batch of batches) {
+      result.push(batch);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    client = new Redis();
+    await client.flushall();
+    adapter = new RedisAdapter({ client, keyPrefix: 'app:' });
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    client.disconnect();
+  });
+
+  describe('locks', () => {
+    it('grants a lock to one caller until it is released', async () => {
+      const token = await adapter.acquireLock('job', 5);
+
+      expect(token).toEqual(expect.any(String));
+      await expect(adapter.acquireLock('job', 5)).resolves.toBeNull();
+
+      await adapter.releaseLock('job', token!);
+      await expect(adapter.acquireLock('job', 5)).resolves.toEqual(expect.any(String));
+    });
+
+    it('ignores releases with the wrong token', async () => {
+      await adapter.acquireLock('job', 5);
+      await adapter.releaseLock('job', 'not-the-token');
+
+      await expect(adapter.acquireLock('job', 5)).resolves.toBeNull();
+    });
+
+    it('expires locks after their TTL', async () => {
+      await adapter.acquireLock('job', 5);
+
+      const ttl = await client.pttl('app:__lock__:job');
+      expect(ttl).toBeGreaterThan(4000);
+      expect(ttl).toBeLessThanOrEqual(5000);
+    });
+
+    it('keeps locks out of key listings and apart from cached keys', async () => {
+      await adapter.set('lock:job', 'cached');
+      await adapter.set('job', 'value');
+      const token = await adapter.acquireLock('job', 5);
+
+      await expect(adapter.keys()).resolves.toEqual(expect.arrayContaining(['job', 'lock:job']));
+      expect(await adapter.keys()).toHaveLength(2);
+      await expect(adapter.get('lock:job')).resolves.toBe('cached');
+      await expect(adapter.acquireLock('lock:job', 5)).resolves.toEqual(expect.any(String));
+
+      await adapter.clear('*');
+      await expect(adapter.acquireLock('job', 5)).resolves.toBeNull();
+      await adapter.releaseLock('job', token!);
+    });
+  });
+
+  describe('tags', () => {
+    it('deletes tagged keys and reports those that were cached', async () => {
+      await adapter.set('user:1', 'a');
+      await adapter.set('user:2', 'b');
+      await adapter.tagKey('user:1', ['users'], 60);
+      await adapter.tagKey('user:2', ['users', 'admins'], 60);
+      await adapter.tagKey('user:3', ['users'], 60);
+
+      const deleted = await adapter.invalidateTags(['users']);
+
+      expect(deleted.sort()).toEqual(['user:1', 'user:2']);
+      await expect(adapter.keys()).resolves.toEqual([]);
+      await expect(client.exists('app:__tag__:users')).resolves.toBe(0);
+    });
+
+    it('keeps tag indexes alive as long as their longest-lived key', async () => {
+      await adapter.tagKey('a', ['t'], 10);
+      await adapter.tagKey('b', ['t'], 60);
+      await adapter.tagKey('c', ['t'], 30);
+
+      expect(await client.pttl('app:__tag__:t')).toBeGreaterThan(30000);
+    });
+  });
+
+  describe('scan', () => {
+    beforeEach(async () => {
+      await adapter.mset(
+        new Map([
+          ['user:1', 1],
+          ['user:2', 2],
+          ['user:3', 3],
+          ['post:1', 4],
+        ]),
+      );
+      await adapter.tagKey('user:1', ['users'], 60);
+      await client.set('other:user:9', 'x');
+    });
+
+    it('returns matching keys in batches of at most batchSize', async () => {
+      const batches = await collect(adapter.scan('user:*', { batchSize: 2 }));
+
+      expect(batches.every((batch) => batch.length <= 2)).toBe(true);
+      expect(batches.flat().sort()).toEqual(['user:1', 'user:2', 'user:3']);
+    });
+
+    it('only returns keys under the prefix and skips tag indexes', async () => {
+      await expect(adapter.keys()).resolves.toEqual(
+        expect.arrayContaining(['user:1', 'user:2', 'user:3', 'post:1']),
+      );
+      expect(await adapter.keys()).toHaveLength(4);
+    });
+
+    it('clears only keys matching the pattern', async () => {
+      await adapter.clear('user:*');
+
+      await expect(adapter.keys()).resolves.toEqual(['post:1']);
+      await expect(client.get('other:user:9')).resolves.toBe('x');
+    });
+  });
+});
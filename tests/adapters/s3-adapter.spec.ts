@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { S3Adapter } from '../../src/adapters/s3-adapter';
+
+interface StoredObject {
+  body: Buffer;
+  metadata: Record<string, string>;
+  etag: string;
+}
+
+/**
+ * In-memory stand-in for S3Client covering the commands S3Adapter sends
+ */
+class FakeS3Client {
+  readonly objects = new Map<string, StoredObject>();
+  readonly calls: { command: string; input: any }[] = [];
+
+  async send(command: { input: any }): Promise<any> {
+    const name = command.constructor.name;
+    const input = command.input;
+    this.calls.push({ command: name, input });
+
+    const object = this.objects.get(input.Key);
+    switch (name) {
+      case 'PutObjectCommand':
+        if ((input.IfNoneMatch && object) || (input.IfMatch && object?.etag !== input.IfMatch)) {
+          throw fail('PreconditionFailed', 412);
+        }
+        this.put(input.Key, input.Body, input.Metadata);
+        return {};
+      case 'GetObjectCommand':
+        if (!object) {
+          throw fail('NoSuchKey', 404);
+        }
+        return {
+          Metadata: object.metadata,
+          Body: { transformToByteArray: async () => object.body, destroy: () => undefined },
+        };
+      case 'HeadObjectCommand':
+        if (!object) {
+          throw fail('NotFound', 404);
+        }
+        return { Metadata: object.metadata, ETag: object.etag };
+      case 'DeleteObjectCommand':
+        this.objects.delete(input.Key);
+        return {};
+      case 'DeleteObjectsCommand':
+        if (input.Delete.Objects.length > 1000) {
+          throw fail('MalformedXML', 400);
+        }
+        input.Delete.Objects.forEach(({ Key }: { Key: string }) => this.objects.delete(Key));
+        return {};
+      case 'ListObjectsV2Command':
+        return this.list(input);
+      default:
+        throw new Error(`Unexpected command ${name}`);
+    }
+  }
+
+  put(key: string, body: string | Buffer = '', metadata: Record<string, string> = {}): void {
+    this.objects.set(key, { body: Buffer.from(body), metadata, etag: randomUUID() });
+  }
+
+  count(command: string): number {
+    return this.calls.filter((call) => call.command === command).length;
+  }
+
+  /**
+   * Keys in order, continuing after the key named by the continuation token
+   */
+  private list(input: any): any {
+    const maxKeys = input.MaxKeys ?? 1000;
+    const keys = Array.from(this.objects.keys())
+      .filter((key) => key.startsWith(input.Prefix ?? ''))
+      .filter((key) => !input.ContinuationToken || key > input.ContinuationToken)
+      .sort();
+    const page = keys.slice(0, maxKeys);
+
+    return {
+      Contents: page.map((Key) => ({ Key })),
+      IsTruncated: keys.length > maxKeys,
+      NextContinuationToken: keys.length > maxKeys ? page[page.length - 1] : undefined,
+    };
+  }
+}
+
+function fail(name: string, status: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode: status } });
+}
+
+describe('S3Adapter', () => {
+  let client: FakeS3Client;
+  let adapter: S3Adapter;
+  let now: number;
+
+  const collect = async (batches: AsyncIterable<string[]>) => {
+    const result: string[][] = [];
+    for await (const batch of batches) {
+      result.push(batch);
+    }
+    return result;
+  };
+  const fill = (count: number, prefix: string) => {
+    for (let i = 0; i < count; i++) {
+      client.put(`${prefix}${String(i).padStart(4, '0')}`, '1');
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    client = new FakeS3Client();
+    adapter = new S3Adapter({ uri: 's3://bucket/cache', keyPrefix: 'app:', client });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('expiry metadata', () => {
+    it('stores the expiry time and skips the object once it has passed', async () => {
+      await adapter.set('user:1', { name: 'Ada' }, 10);
+
+      expect(client.objects.get('cache/app:user:1')?.metadata).toEqual({
+        'expires-at': String(now + 10_000),
+      });
+      await expect(adapter.get('user:1')).resolves.toEqual({ name: 'Ada' });
+
+      now += 10_000;
+      await expect(adapter.get('user:1')).resolves.toBeNull();
+      await expect(adapter.has('user:1')).resolves.toBe(false);
+    });
+
+    it('writes no expiry without a TTL, and the default TTL when configured', async () => {
+      await adapter.set('forever', 'a');
+      const withDefault = new S3Adapter({ bucket: 'bucket', ttl: 5, client });
+      await withDefault.set('short', 'b');
+
+      expect(client.objects.get('cache/app:forever')?.metadata).toEqual({});
+      expect(client.objects.get('short')?.metadata).toEqual({ 'expires-at': String(now + 5_000) });
+    });
+
+    it('lets another caller take over an expired lock', async () => {
+      await expect(adapter.acquireLock('job', 1)).resolves.toEqual(expect.any(String));
+      await expect(adapter.acquireLock('job', 1)).resolves.toBeNull();
+
+      now += 1_000;
+      await expect(adapter.acquireLock('job', 1)).resolves.toEqual(expect.any(String));
+    });
+  });
+
+  describe('prefix listing', () => {
+    it('lists from the literal prefix of the pattern', async () => {
+      fill(3, 'cache/app:user:');
+      fill(3, 'cache/app:post:');
+
+      await expect(adapter.keys('user:000?')).resolves.toEqual([
+        'user:0000',
+        'user:0001',
+        'user:0002',
+      ]);
+      expect(client.calls[0].input).toMatchObject({
+        Bucket: 'bucket',
+        Prefix: 'cache/app:user:000',
+      });
+    });
+
+    it('leaves tag and lock objects out of listings', async () => {
+      await adapter.set('user:1', 'a');
+      await adapter.tagKey('user:1', ['users']);
+      await adapter.acquireLock('user:1', 5);
+
+      await expect(adapter.keys()).resolves.toEqual(['user:1']);
+    });
+
+    it('pages through listings with continuation tokens', async () => {
+      fill(250, 'cache/app:user:');
+
+      const batches = await collect(adapter.scan('user:*', { batchSize: 100 }));
+
+      expect(batches.map((batch) => batch.length)).toEqual([100, 100, 50]);
+      expect(client.count('ListObjectsV2Command')).toBe(3);
+      expect(client.calls.every((call) => call.input.MaxKeys === 100)).toBe(true);
+    });
+  });
+
+  describe('batched deletes', () => {
+    it('deletes many keys in chunks of 1000', async () => {
+      fill(2500, 'cache/app:user:');
+      const keys = Array.from(client.objects.keys(), (key) => key.slice('cache/app:'.length));
+
+      await adapter.delete(keys);
+
+      const batches = client.calls.map((call) => call.input.Delete.Objects.length);
+      expect(batches).toEqual([1000, 1000, 500]);
+      expect(client.objects.size).toBe(0);
+    });
+
+    it('clears a pattern in chunks of 1000', async () => {
+      fill(2500, 'cache/app:user:');
+      fill(2, 'cache/app:post:');
+
+      await adapter.clear('user:*');
+
+      expect(client.count('DeleteObjectsCommand')).toBe(3);
+      expect(Array.from(client.objects.keys())).toEqual([
+        'cache/app:post:0000',
+        'cache/app:post:0001',
+      ]);
+    });
+
+    it('reports why DeleteObjects failed without the object key', async () => {
+      client.put('cache/app:user:1');
+      jest.spyOn(client, 'send').mockResolvedValueOnce({
+        Errors: [{ Key: 'cache/app:user:1', Code: 'AccessDenied', Message: 'Access Denied' }],
+      });
+
+      const error = await adapter.delete('user:1').catch((err) => err);
+
+      expect(error.message).toBe('Failed to delete key(s)');
+      expect(error.cause.message).toBe('DeleteObjects failed: AccessDenied Access Denied');
+      expect(JSON.stringify([error.message, error.cause.message])).not.toContain('user:1');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { SqliteAdapter } from '../../src/adapters/sqlite-adapter';
+
+describe('SqliteAdapter', () => {
+  let adapter: SqliteAdapter;
+  let now: number;
+
+  const collect = async (batches: AsyncIterable<string[]>) => {
+    const result: string[][] = [];
+    for await (const batch of batches) {
+      result.push(batch);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    adapter = new SqliteAdapter({ path: ':memory:', vacuumInterval: 0 });
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('expiry', () => {
+    it('stops returning entries once their TTL has passed', async () => {
+      await adapter.set('short', 'a', 10);
+      await adapter.set('forever', 'b');
+
+      now += 9_999;
+      await expect(adapter.get('short')).resolves.toBe('a');
+
+      now += 1;
+      await expect(adapter.get('short')).resolves.toBeNull();
+      await expect(adapter.has('short')).resolves.toBe(false);
+      await expect(adapter.get('forever')).resolves.toBe('b');
+    });
+
+    it('applies the default TTL to writes without one', async () => {
+      await adapter.close();
+      adapter = new SqliteAdapter({ path: ':memory:', ttl: 5, vacuumInterval: 0 });
+
+      await adapter.set('key', 'value');
+      now += 5_000;
+
+      await expect(adapter.get('key')).resolves.toBeNull();
+    });
+
+    it('lets another caller take over an expired lock', async () => {
+      await adapter.acquireLock('job', 1);
+      await expect(adapter.acquireLock('job', 1)).resolves.toBeNull();
+
+      now += 1_000;
+      await expect(adapter.acquireLock('job', 1)).resolves.toEqual(expect.any(String));
+    });
+  });
+
+  describe('scan', () => {
+    beforeEach(async () => {
+      const entries = new Map<string, number>();
+      for (let i = 0; i < 250; i++) {
+        entries.set(`user:${String(i).padStart(3, '0')}`, i);
+      }
+      entries.set('post:1', 1);
+      entries.set('zone:1', 1);
+      await adapter.mset(entries);
+    });
+
+    it('pages through matching keys in key order', async () => {
+      const batches = await collect(adapter.scan('user:*', { batchSize: 100 }));
+
+      expect(batches.map((batch) => batch.length)).toEqual([100, 100, 50]);
+      const keys = batches.flat();
+      expect(keys[0]).toBe('user:000');
+      expect(keys[249]).toBe('user:249');
+      expect([...keys].sort()).toEqual(keys);
+    });
+
+    it('filters pages by the whole pattern, not just its prefix', async () => {
+      const keys = (await collect(adapter.scan('user:?4?', { batchSize: 7 }))).flat();
+
+      expect(keys).toHaveLength(30);
+      expect(keys.every((key) => /^user:.4.$/.test(key))).toBe(true);
+    });
+
+    it('skips expired entries', async () => {
+      await adapter.set('user:expiring', 'x', 1);
+      now += 1_000;
+
+      await expect(adapter.keys('user:e*')).resolves.toEqual([]);
+      await expect(adapter.keys('*')).resolves.toHaveLength(252);
+    });
+
+    it('clears only keys matching a pattern', async () => {
+      await adapter.clear('user:*');
+
+      await expect(adapter.keys()).resolves.toEqual(['post:1', 'zone:1']);
+    });
+  });
+
+  describe('vacuum', () => {
+    it('deletes expired rows and reports them as expire events', async () => {
+      const events: unknown[] = [];
+      adapter.onEvent((event) => events.push(event));
+      await adapter.set('expired', 'a', 1);
+      await adapter.set('live', 'b', 60);
+      now += 1_000;
+
+      await expect(adapter.vacuum()).resolves.toBe(1);
+
+      expect(events).toEqual([{ type: 'expire', key: 'expired' }]);
+      await expect(adapter.stats()).resolves.toMatchObject({ keys: 1 });
+    });
+
+    it('drops tags of deleted entries', async () => {
+      await adapter.set('expired', 'a', 1);
+      await adapter.set('live', 'b');
+      await adapter.tagKey('expired', ['group']);
+      await adapter.tagKey('live', ['group']);
+      now += 1_000;
+
+      await adapter.vacuum();
+      await adapter.set('expired', 'c');
+
+      // A rewrite of the expired key must not inherit its old tag
+      await expect(adapter.invalidateTags(['group'])).resolves.toEqual(['live']);
+      await expect(adapter.get('expired')).resolves.toBe('c');
+    });
+
+    it('runs on the vacuum interval', async () => {
+      await adapter.close();
+      jest.useFakeTimers({ doNotFake: ['Date'] });
+      try {
+        adapter = new SqliteAdapter({ path: ':memory:', vacuumInterval: 60 });
+        const vacuum = jest.spyOn(adapter, 'vacuum');
+
+        jest.advanceTimersByTime(60_000);
+
+        expect(vacuum).toHaveBeenCalledTimes(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheManager clear', () => {
+  let adapter: MemoryAdapter;
+  let cache: CacheManager;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    cache = new CacheManager(adapter, { stores: [], namespace: 'app' } as CacheConfig);
+
+    for (let i = 0; i < 250; i++) {
+      await cache.set(`user:${i}`, i);
+    }
+    await cache.set('post:1', 'kept');
+  });
+
+  it('deletes keys matching a pattern in scan batches', async () => {
+    const clear = jest.spyOn(adapter, 'clear');
+    const remove = jest.spyOn(adapter, 'delete');
+
+    await cache.clear('user:*');
+
+    expect(clear).not.toHaveBeenCalled();
+    expect(remove).toHaveBeenCalledTimes(3);
+    remove.mock.calls.forEach(([keys]) => expect(keys.length).toBeLessThanOrEqual(100));
+    await expect(cache.keys()).resolves.toEqual(['post:1']);
+  });
+
+  it('clears the whole adapter without a pattern', async () => {
+    const listener = jest.fn();
+    cache.on('clear', listener);
+
+    await cache.clear();
+
+    await expect(adapter.keys()).resolves.toEqual([]);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ pattern: undefined }));
+  });
+});
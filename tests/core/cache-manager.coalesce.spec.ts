@@ -0,0 +1,99 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+
+describe('CacheManager coalescing', () => {
+  let cache: CacheManager;
+
+  // Resolves once the test calls release(), so calls stay in flight until then
+  const deferred = <T>() => {
+    let release!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      release = res;
+      reject = rej;
+    });
+    return { promise, release, reject };
+  };
+
+  beforeEach(() => {
+    cache = new CacheManager(new MemoryAdapter(), { stores: [], namespace: 'app' } as CacheConfig);
+  });
+
+  it('shares one factory call between concurrent misses for a key', async () => {
+    const pending = deferred<string>();
+    const factory = jest.fn(() => pending.promise);
+
+    const calls = [cache.wrap('user:1', factory), cache.wrap('user:1', factory)];
+    pending.release('Ada');
+
+    await expect(Promise.all(calls)).resolves.toEqual(['Ada', 'Ada']);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers a rejection to every waiter and retries on the next call', async () => {
+    const pending = deferred<string>();
+    const factory = jest.fn(() => pending.promise);
+
+    const calls = [cache.wrap('user:1', factory), cache.wrap('user:1', factory)];
+    pending.reject(new Error('db down'));
+
+    await expect(calls[0]).rejects.toThrow('db down');
+    await expect(calls[1]).rejects.toThrow('db down');
+
+    await expect(cache.wrap('user:1', async () => 'Ada')).resolves.toBe('Ada');
+  });
+
+  it('runs the factory per call with coalesce: false', async () => {
+    const factory = jest.fn(async () => 'Ada');
+
+    await Promise.all([
+      cache.wrap('user:1', factory, { coalesce: false }),
+      cache.wrap('user:1', factory, { coalesce: false }),
+    ]);
+
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps different keys and namespaces apart', async () => {
+    const other = new CacheManager(new MemoryAdapter(), { stores: [], namespace: 'other' });
+    const factory = jest.fn(async () => 'value');
+
+    await Promise.all([
+      cache.wrap('user:1', factory),
+      cache.wrap('user:2', factory),
+      other.wrap('user:1', factory),
+    ]);
+
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it('coalesces concurrent calls to a decorated method unless disabled', async () => {
+    const cacheManager = cache;
+
+    class UserService {
+      readonly cacheManager = cacheManager;
+      calls = 0;
+
+      @TurboCache({ key: 'user:#{0}' })
+      async getUser(id: string) {
+        this.calls++;
+        return { id };
+      }
+
+      @TurboCache({ key: 'raw:#{0}', coalesce: false })
+      async getRaw(id: string) {
+        this.calls++;
+        return { id };
+      }
+    }
+
+    const service = new UserService();
+    await Promise.all([service.getUser('1'), service.getUser('1'), service.getUser('1')]);
+    expect(service.calls).toBe(1);
+
+    await Promise.all([service.getRaw('1'), service.getRaw('1')]);
+    expect(service.calls).toBe(3);
+  });
+});
@@ -0,0 +1,73 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, CompressionAlgorithm, CompressionConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheManager compression', () => {
+  let adapter: MemoryAdapter;
+
+  const catalog = {
+    items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `Product ${i}`, tags: ['a'] })),
+  };
+  const createManager = (compression?: CompressionConfig) =>
+    new CacheManager(adapter, { stores: [], compression } as CacheConfig);
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+  });
+
+  it.each<CompressionAlgorithm>(['gzip', 'brotli', 'lz4'])(
+    'round-trips values compressed with %s',
+    async (algorithm) => {
+      const cache = createManager({ enabled: true, algorithm });
+
+      await cache.set('catalog', catalog);
+
+      const stored: any = await adapter.get('catalog');
+      expect(stored.compression).toBe(algorithm);
+      expect(stored.encoding).toBe('base64');
+      expect(stored.value.length).toBeLessThan(JSON.stringify(catalog).length);
+      await expect(cache.get('catalog')).resolves.toEqual(catalog);
+    },
+  );
+
+  it('stores values below the threshold uncompressed', async () => {
+    const cache = createManager({ enabled: true, threshold: 1024 });
+
+    await cache.set('small', { id: 1 });
+
+    const stored: any = await adapter.get('small');
+    expect(stored.compression).toBeUndefined();
+    await expect(cache.get('small')).resolves.toEqual({ id: 1 });
+  });
+
+  it('reads compressed entries after compression is disabled', async () => {
+    await createManager({ enabled: true, algorithm: 'brotli' }).set('catalog', catalog);
+    await createManager().set('plain', 'value');
+
+    const cache = createManager({ enabled: false });
+
+    await expect(cache.get('catalog')).resolves.toEqual(catalog);
+    await expect(cache.get('plain')).resolves.toBe('value');
+  });
+
+  it('reports ratio and timings in stats', async () => {
+    const cache = createManager({ enabled: true, threshold: 100 });
+
+    await cache.set('catalog', catalog);
+    await cache.set('small', 1);
+    await cache.get('catalog');
+
+    const { compression } = await cache.stats();
+    expect(compression).toEqual(
+      expect.objectContaining({ algorithm: 'gzip', compressed: 1, skipped: 1 }),
+    );
+    expect(compression!.bytesIn).toBeGreaterThan(compression!.bytesOut);
+    expect(compression!.ratio).toBeCloseTo(compression!.bytesOut / compression!.bytesIn);
+    expect(compression!.compressTime).toBeGreaterThan(0);
+    expect(compression!.decompressTime).toBeGreaterThan(0);
+  });
+
+  it('leaves compression out of stats when disabled', async () => {
+    await expect(createManager().stats()).resolves.not.toHaveProperty('compression');
+  });
+});
@@ -0,0 +1,97 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, WrapOptions } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheManager early refresh', () => {
+  let cache: CacheManager;
+  let now: number;
+  let random: jest.SpyInstance;
+  const sink = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  const options: WrapOptions = { ttl: 10, earlyRefresh: true };
+
+  // Factory that takes `ms` of (mocked) time to compute its value
+  const slow = (value: string, ms: number = 1_000) =>
+    jest.fn(async () => {
+      now += ms;
+      return value;
+    });
+
+  beforeEach(async () => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    cache = new CacheManager(new MemoryAdapter(), {
+      stores: [],
+      logging: { logger: sink },
+    } as CacheConfig);
+
+    // Written 1s after the start, fresh for 10s, took 1s to compute
+    await cache.wrap('report', slow('v1'), options);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves the cached value while expiry is far off', async () => {
+    now += 5_000;
+    const factory = slow('v2');
+
+    await expect(cache.wrapWithStatus('report', factory, options)).resolves.toEqual({
+      value: 'v1',
+      status: 'hit',
+    });
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('recomputes shortly before expiry, weighted by compute time', async () => {
+    // 0.5s before expiry; -1000ms * ln(0.5) reaches ~0.69s past now
+    now += 9_500;
+    const factory = slow('v2');
+
+    await expect(cache.wrapWithStatus('report', factory, options)).resolves.toEqual({
+      value: 'v2',
+      status: 'miss',
+    });
+    expect(factory).toHaveBeenCalledTimes(1);
+    await expect(cache.get('report')).resolves.toBe('v2');
+  });
+
+  it('refreshes earlier with a higher beta', async () => {
+    now += 8_000;
+    const factory = slow('v2');
+
+    await expect(cache.wrap('report', factory, options)).resolves.toBe('v1');
+    await expect(cache.wrap('report', factory, { ...options, earlyRefreshBeta: 4 })).resolves.toBe(
+      'v2',
+    );
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('rarely refreshes when the random draw is high', async () => {
+    now += 9_500;
+    random.mockReturnValue(0.999);
+    const factory = slow('v2');
+
+    await expect(cache.wrap('report', factory, options)).resolves.toBe('v1');
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('never refreshes early unless enabled', async () => {
+    now += 9_900;
+    const factory = slow('v2');
+
+    await expect(cache.wrap('report', factory, { ttl: 10 })).resolves.toBe('v1');
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('keeps the cached value when the early refresh fails', async () => {
+    now += 9_500;
+
+    await expect(
+      cache.wrapWithStatus('report', () => Promise.reject(new Error('db down')), options),
+    ).resolves.toEqual({ value: 'v1', status: 'hit' });
+    await expect(cache.get('report')).resolves.toBe('v1');
+    expect(sink.error).toHaveBeenCalledTimes(1);
+  });
+});
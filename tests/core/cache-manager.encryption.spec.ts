@@ -0,0 +1,68 @@
+import { randomBytes } from 'crypto';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheManager encryption', () => {
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  const createManager = (adapter: MemoryAdapter, keys: Record<string, Buffer>) =>
+    new CacheManager(adapter, {
+      stores: [],
+      encryption: { enabled: true, keys },
+      logging: { logger },
+    } as CacheConfig);
+
+  it('encrypts values written with serialize: false', async () => {
+    const adapter = new MemoryAdapter();
+    const cache = createManager(adapter, { v1: oldKey });
+
+    await cache.set('secret', { card: '4111' }, { serialize: false });
+
+    const stored: any = await adapter.get('secret');
+    expect(stored.encryption).toBeDefined();
+    expect(JSON.stringify(stored)).not.toContain('4111');
+    await expect(cache.get('secret')).resolves.toEqual({ card: '4111' });
+  });
+
+  it('treats entries written with a retired key as a miss and recomputes them', async () => {
+    const adapter = new MemoryAdapter();
+    await createManager(adapter, { v1: oldKey }).set('user', 'old');
+
+    const rotated = createManager(adapter, { v2: newKey });
+    const factory = jest.fn().mockResolvedValue('fresh');
+
+    await expect(rotated.get('user')).resolves.toBeNull();
+    await expect(rotated.wrap('user', factory)).resolves.toBe('fresh');
+    await expect(rotated.wrap('user', factory)).resolves.toBe('fresh');
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes entries that fail to decrypt', async () => {
+    const adapter = new MemoryAdapter();
+    const cache = createManager(adapter, { v1: oldKey });
+    await cache.set('user', 'value');
+
+    const stored: any = await adapter.get('user');
+    await adapter.set('user', { ...stored, value: Buffer.from('corrupt').toString('base64') });
+
+    await expect(cache.mget(['user'])).resolves.toEqual(new Map());
+    await expect(adapter.has('user')).resolves.toBe(false);
+  });
+
+  it('stores values unencrypted when disabled, without requiring keys', async () => {
+    const adapter = new MemoryAdapter();
+    const cache = new CacheManager(adapter, {
+      stores: [],
+      encryption: { enabled: false, keys: {} },
+    } as CacheConfig);
+
+    await cache.set('user', { name: 'Ada' });
+
+    const stored: any = await adapter.get('user');
+    expect(stored.encryption).toBeUndefined();
+    await expect(cache.get('user')).resolves.toEqual({ name: 'Ada' });
+  });
+});
@@ -0,0 +1,117 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, ICacheAdapter } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+
+describe('CacheManager events', () => {
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const createManager = (adapter: ICacheAdapter = new MemoryAdapter()) =>
+    new CacheManager(adapter, { stores: [], namespace: 'app', logging: { logger } } as CacheConfig);
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('reports hits, misses, sets, deletes and clears without the namespace', async () => {
+    const cache = createManager();
+    const events: [string, unknown][] = [];
+    for (const name of ['hit', 'miss', 'set', 'delete', 'clear'] as const) {
+      cache.on(name, (event) => events.push([name, event]));
+    }
+
+    await cache.get('user:1');
+    await cache.set('user:1', 'a', 60);
+    await cache.get('user:1');
+    await cache.delete('user:1');
+    await cache.clear('user:*');
+
+    expect(events).toEqual([
+      ['miss', { key: 'user:1' }],
+      ['set', { key: 'user:1', ttl: 60 }],
+      ['hit', { key: 'user:1', stale: false }],
+      ['delete', { key: 'user:1' }],
+      ['clear', { pattern: 'user:*' }],
+    ]);
+  });
+
+  it('reports entries the adapter evicts to stay within capacity', async () => {
+    const cache = createManager(new MemoryAdapter({ max: 1 }));
+    const evict = jest.fn();
+    cache.on('evict', evict);
+
+    await cache.set('user:1', 'a');
+    await cache.set('user:2', 'b');
+
+    expect(evict).toHaveBeenCalledWith({ key: 'user:1' });
+  });
+
+  it('reports entries the adapter expires on read and during cleanup', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const cache = createManager();
+    const expire = jest.fn();
+    cache.on('expire', expire);
+    await cache.set('user:1', 'a', 1);
+    await cache.set('user:2', 'b', 1);
+
+    jest.setSystemTime(2_000);
+    await cache.get('user:1');
+    expect(expire).toHaveBeenCalledWith({ key: 'user:1' });
+
+    jest.advanceTimersByTime(60_000);
+    expect(expire).toHaveBeenCalledWith({ key: 'user:2' });
+    expect(expire).toHaveBeenCalledTimes(2);
+  });
+
+  it('tags multi-tier evictions with the tier', async () => {
+    const adapter = new MultiTierAdapter({
+      l1: new MemoryAdapter({ max: 1 }),
+      l2: new MemoryAdapter(),
+    });
+    const cache = createManager(adapter);
+    const evict = jest.fn();
+    cache.on('evict', evict);
+
+    await cache.set('user:1', 'a');
+    await cache.set('user:2', 'b');
+
+    expect(evict).toHaveBeenCalledWith({ key: 'user:1', tier: 'l1' });
+  });
+
+  it('reports failed operations once', async () => {
+    const adapter = new MemoryAdapter();
+    const failure = new Error('store down');
+    jest.spyOn(adapter, 'get').mockRejectedValue(failure);
+    const cache = createManager(adapter);
+    const error = jest.fn();
+    cache.on('error', error);
+
+    await expect(cache.wrap('user:1', async () => 'a')).rejects.toThrow('store down');
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith({ operation: 'wrap', key: 'user:1', error: failure });
+  });
+
+  it('supports once() and off()', async () => {
+    const cache = createManager();
+    const once = jest.fn();
+    const removed = jest.fn();
+    cache.once('miss', once).on('miss', removed).off('miss', removed);
+
+    await cache.get('user:1');
+    await cache.get('user:2');
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it('logs listener failures instead of failing the operation', async () => {
+    const cache = createManager();
+    cache.on('set', () => {
+      throw new Error('listener failed');
+    });
+
+    await expect(cache.set('user:1', 'a')).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+});
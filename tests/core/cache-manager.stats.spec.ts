@@ -0,0 +1,72 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+
+describe('CacheManager stats', () => {
+  it('attributes decorated lookups to the method and key prefix', async () => {
+    const cacheManager = new CacheManager(new MemoryAdapter(), { stores: [] } as CacheConfig);
+
+    class UserService {
+      readonly cacheManager = cacheManager;
+
+      @TurboCache({ key: 'user:#{0}' })
+      async getUser(id: string) {
+        return { id };
+      }
+    }
+
+    const service = new UserService();
+    await service.getUser('1');
+    await service.getUser('1');
+    await service.getUser('1');
+    await cacheManager.get('post:1');
+
+    const { window } = await cacheManager.stats();
+    expect(window!.byMethod).toEqual({
+      'UserService.getUser': { hits: 2, misses: 1, hitRatio: 2 / 3 },
+    });
+    expect(window!.byPrefix).toEqual({
+      user: { hits: 2, misses: 1, hitRatio: 2 / 3 },
+      post: { hits: 0, misses: 1, hitRatio: 0 },
+    });
+    expect(window!.latency.wrap.count).toBe(3);
+    expect(window!.latency.get.count).toBe(1);
+  });
+
+  it('attributes hits to the tier that served them', async () => {
+    const l1 = new MemoryAdapter();
+    const cache = new CacheManager(new MultiTierAdapter({ l1, l2: new MemoryAdapter() }), {
+      stores: [],
+    });
+    await cache.set('user:1', 'a');
+    await cache.get('user:1');
+    await l1.clear();
+    await cache.get('user:1');
+    await cache.get('user:2');
+
+    await expect(cache.stats()).resolves.toEqual(
+      expect.objectContaining({ hits: 2, misses: 1, tierHits: { l1: 1, l2: 1 } }),
+    );
+  });
+
+  it('resets the window and adapter counters', async () => {
+    const cache = new CacheManager(new MemoryAdapter(), { stores: [] });
+    await cache.get('user:1');
+
+    cache.resetStats();
+
+    const stats = await cache.stats();
+    expect(stats.misses).toBe(0);
+    expect(stats.window!.lookups).toEqual({ hits: 0, misses: 0, hitRatio: 0 });
+    expect(stats.window!.latency).toEqual({});
+  });
+
+  it('leaves the window out when stats are disabled', async () => {
+    const cache = new CacheManager(new MemoryAdapter(), { stores: [], stats: { enabled: false } });
+    await cache.get('user:1');
+
+    await expect(cache.stats()).resolves.not.toHaveProperty('window');
+  });
+});
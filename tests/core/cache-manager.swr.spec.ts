@@ -0,0 +1,86 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheManager stale-while-revalidate', () => {
+  let cache: CacheManager;
+  let now: number;
+  const sink = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    cache = new CacheManager(new MemoryAdapter(), {
+      stores: [],
+      logging: { logger: sink },
+    } as CacheConfig);
+    await cache.wrap('user:1', async () => 'v1', { ttl: 10, staleTTL: 20 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves a stale value immediately and refreshes it in the background', async () => {
+    now += 15_000;
+    let release!: (value: string) => void;
+    const factory = jest.fn(() => new Promise<string>((resolve) => (release = resolve)));
+
+    const result = await cache.wrapWithStatus('user:1', factory, { ttl: 10, staleTTL: 20 });
+
+    expect(result).toEqual({ value: 'v1', status: 'stale' });
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    release('v2');
+    await flush();
+    await expect(
+      cache.wrapWithStatus('user:1', factory, { ttl: 10, staleTTL: 20 }),
+    ).resolves.toEqual({ value: 'v2', status: 'hit' });
+  });
+
+  it('runs one background refresh for concurrent stale reads', async () => {
+    now += 15_000;
+    const factory = jest.fn(async () => 'v2');
+
+    const results = await Promise.all([
+      cache.wrap('user:1', factory, { ttl: 10, staleTTL: 20 }),
+      cache.wrap('user:1', factory, { ttl: 10, staleTTL: 20 }),
+    ]);
+
+    expect(results).toEqual(['v1', 'v1']);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps serving the stale value when the background refresh fails', async () => {
+    now += 15_000;
+
+    await expect(
+      cache.wrap('user:1', () => Promise.reject(new Error('db down')), { ttl: 10, staleTTL: 20 }),
+    ).resolves.toBe('v1');
+    await flush();
+
+    await expect(cache.get('user:1', { allowStale: true })).resolves.toBe('v1');
+    expect(sink.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes once the stale window has passed', async () => {
+    now += 30_000;
+    const factory = jest.fn(async () => 'v2');
+
+    await expect(
+      cache.wrapWithStatus('user:1', factory, { ttl: 10, staleTTL: 20 }),
+    ).resolves.toEqual({ value: 'v2', status: 'miss' });
+  });
+
+  it('reports stale entries as missing from get() and has()', async () => {
+    await expect(cache.has('user:1')).resolves.toBe(true);
+
+    now += 15_000;
+
+    await expect(cache.get('user:1')).resolves.toBeNull();
+    await expect(cache.get('user:1', { allowStale: true })).resolves.toBe('v1');
+    await expect(cache.has('user:1')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, ICacheAdapter } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { KeyvAdapter } from '../../src/adapters/keyv-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+import { TurboCacheEvict } from '../../src/decorators/turbocache-evict.decorator';
+import { TurboCachePut } from '../../src/decorators/turbocache-put.decorator';
+
+describe('CacheManager tags', () => {
+  describe.each<[string, () => ICacheAdapter]>([
+    ['memory', () => new MemoryAdapter()],
+    ['keyv', () => new KeyvAdapter({ store: new Map() })],
+    [
+      'multi-tier',
+      () => new MultiTierAdapter({ l1: new MemoryAdapter(), l2: new MemoryAdapter() }),
+    ],
+  ])('on the %s adapter', (_name, createAdapter) => {
+    let cache: CacheManager;
+
+    beforeEach(() => {
+      cache = new CacheManager(createAdapter(), { stores: [], namespace: 'app' } as CacheConfig);
+    });
+
+    it('deletes every entry carrying an invalidated tag', async () => {
+      await cache.set('user:1', 'a', { tags: ['users', 'org:1'] });
+      await cache.set('user:2', 'b', { tags: ['users', 'org:2'] });
+      await cache.wrap('post:1', async () => 'c', { tags: ['org:1'] });
+
+      await expect(cache.invalidateTags('org:1')).resolves.toBe(2);
+
+      await expect(cache.get('user:1')).resolves.toBeNull();
+      await expect(cache.get('post:1')).resolves.toBeNull();
+      await expect(cache.get('user:2')).resolves.toBe('b');
+    });
+
+    it('emits a delete event per invalidated key', async () => {
+      const deleted: string[] = [];
+      cache.on('delete', ({ key }) => deleted.push(key));
+      await cache.set('user:1', 'a', { tags: ['users'] });
+      await cache.set('user:2', 'b', { tags: ['users'] });
+
+      await cache.invalidateTags(['users']);
+
+      expect(deleted.sort()).toEqual(['user:1', 'user:2']);
+    });
+
+    it('returns 0 for unknown tags and an empty list', async () => {
+      await cache.set('user:1', 'a', { tags: ['users'] });
+
+      await expect(cache.invalidateTags('posts')).resolves.toBe(0);
+      await expect(cache.invalidateTags([])).resolves.toBe(0);
+      await expect(cache.get('user:1')).resolves.toBe('a');
+    });
+  });
+
+  it('keeps tags of different namespaces apart', async () => {
+    const adapter = new MemoryAdapter();
+    const app = new CacheManager(adapter, { stores: [], namespace: 'app' });
+    const admin = new CacheManager(adapter, { stores: [], namespace: 'admin' });
+    await app.set('user:1', 'a', { tags: ['users'] });
+    await admin.set('user:1', 'b', { tags: ['users'] });
+
+    await app.invalidateTags('users');
+
+    await expect(app.get('user:1')).resolves.toBeNull();
+    await expect(admin.get('user:1')).resolves.toBe('b');
+  });
+
+  describe('decorators', () => {
+    const cacheManager = new CacheManager(new MemoryAdapter(), { stores: [] });
+
+    class UserService {
+      readonly cacheManager = cacheManager;
+      calls = 0;
+
+      @TurboCache({ key: 'user:#{0.id}', tags: ['user:#{0.id}', 'org:#{0.orgId}'] })
+      async getUser(query: { id: string; orgId: string }) {
+        this.calls++;
+        return { ...query, name: 'Ada' };
+      }
+
+      @TurboCachePut({ key: 'profile:#{result.id}', tags: ['user:#{result.id}'] })
+      async saveProfile(id: string) {
+        return { id };
+      }
+
+      @TurboCacheEvict({ tags: ['org:#{0}'] })
+      async removeOrg(_orgId: string) {
+        return true;
+      }
+
+      @TurboCacheEvict({ tags: ['user:#{0}'] })
+      async removeUser(_id: string) {
+        return true;
+      }
+    }
+
+    it('tags entries from method arguments and evicts them by tag', async () => {
+      const service = new UserService();
+      await service.getUser({ id: '1', orgId: 'acme' });
+      await service.getUser({ id: '2', orgId: 'other' });
+
+      await service.removeOrg('acme');
+      await service.getUser({ id: '1', orgId: 'acme' });
+      await service.getUser({ id: '2', orgId: 'other' });
+
+      expect(service.calls).toBe(3);
+    });
+
+    it('tags entries written by @TurboCachePut from the result', async () => {
+      const service = new UserService();
+      await service.saveProfile('7');
+      await expect(cacheManager.get('profile:7')).resolves.toEqual({ id: '7' });
+
+      await service.removeUser('7');
+
+      await expect(cacheManager.get('profile:7')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheStoreRegistry } from '../../src/core/store-registry';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+
+describe('CacheStoreRegistry', () => {
+  let registry: CacheStoreRegistry;
+  let main: CacheManager;
+  let sessions: CacheManager;
+
+  beforeEach(() => {
+    registry = new CacheStoreRegistry();
+    const mainAdapter = new MemoryAdapter();
+    const sessionAdapter = new MemoryAdapter();
+    main = new CacheManager(mainAdapter, { stores: [] }, 'main');
+    sessions = new CacheManager(sessionAdapter, { stores: [] }, 'sessions');
+    registry.register('main', mainAdapter, main);
+    registry.register('sessions', sessionAdapter, sessions);
+  });
+
+  it('resolves the first registered store as the default', () => {
+    expect(registry.get()).toBe(main);
+    expect(registry.get('default')).toBe(main);
+    expect(registry.has('default')).toBe(true);
+  });
+
+  it('resolves stores by name', () => {
+    expect(registry.get('sessions')).toBe(sessions);
+    expect(registry.getAdapter('sessions')).toBeInstanceOf(MemoryAdapter);
+    expect(registry.names()).toEqual(['main', 'sessions']);
+  });
+
+  it('rejects unknown and duplicate store names', () => {
+    expect(() => registry.get('users')).toThrow(
+      'Cache store "users" not found. Registered stores: main, sessions',
+    );
+    expect(() => registry.register('main', new MemoryAdapter(), main)).toThrow(
+      'Cache store "main" is already registered',
+    );
+    expect(() => new CacheStoreRegistry().get()).toThrow('No cache stores registered');
+  });
+
+  it('keeps values written to one store out of the others', async () => {
+    await registry.get('sessions').set('token', 'abc');
+
+    await expect(registry.get('sessions').get('token')).resolves.toBe('abc');
+    await expect(registry.get('main').get('token')).resolves.toBeNull();
+  });
+
+  it('reports the worst store health', async () => {
+    jest
+      .spyOn(sessions, 'health')
+      .mockResolvedValue({ status: 'down', reachable: false, latency: 0 });
+
+    const health = await registry.health();
+
+    expect(health.status).toBe('down');
+    expect(Object.keys(health.stores)).toEqual(['main', 'sessions']);
+  });
+});
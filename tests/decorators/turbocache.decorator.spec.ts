@@ -0,0 +1,129 @@
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheErrorCode, ICacheAdapter } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+
+describe('@TurboCache', () => {
+  it('returns the computed value when the cache write fails', async () => {
+    const adapter = new MemoryAdapter();
+    jest.spyOn(adapter, 'set').mockRejectedValue(new Error('store down'));
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const cacheManager = new CacheManager(adapter, { stores: [], logging: { logger } });
+
+    class UserService {
+      readonly cacheManager = cacheManager;
+      calls = 0;
+
+      @TurboCache({ key: 'user:#{0}' })
+      async getUser(id: string) {
+        this.calls++;
+        return { id };
+      }
+    }
+
+    const service = new UserService();
+    await expect(service.getUser('1')).resolves.toEqual({ id: '1' });
+    await expect(service.getUser('1')).resolves.toEqual({ id: '1' });
+
+    expect(service.calls).toBe(2);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to cache computed value'),
+      expect.anything(),
+    );
+  });
+
+  describe('stampede lock', () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    const createService = (cacheManager: CacheManager, options: { stampedeTTL?: number } = {}) => {
+      class ReportService {
+        readonly cacheManager = cacheManager;
+        calls = 0;
+
+        @TurboCache({ key: 'report', stampedeLock: true, coalesce: false, ...options })
+        async build() {
+          const n = ++this.calls;
+          await sleep(100);
+          return { n };
+        }
+      }
+      return new ReportService();
+    };
+
+    it('recomputes once when concurrent callers miss', async () => {
+      const service = createService(new CacheManager(new MemoryAdapter(), { stores: [] }));
+
+      const results = await Promise.all([service.build(), service.build(), service.build()]);
+
+      expect(service.calls).toBe(1);
+      expect(results).toEqual([{ n: 1 }, { n: 1 }, { n: 1 }]);
+    });
+
+    it('serves waiters on other instances the result cached by the lock holder', async () => {
+      const adapter = new MemoryAdapter();
+      const holder = createService(new CacheManager(adapter, { stores: [] }));
+      const waiter = createService(new CacheManager(adapter, { stores: [] }));
+
+      const pending = holder.build();
+      await sleep(10);
+
+      await expect(waiter.build()).resolves.toEqual({ n: 1 });
+      await expect(pending).resolves.toEqual({ n: 1 });
+      expect(holder.calls).toBe(1);
+      expect(waiter.calls).toBe(0);
+    });
+
+    it('computes directly once the lock wait times out', async () => {
+      const cacheManager = new CacheManager(new MemoryAdapter(), { stores: [] });
+      await cacheManager.acquireLock('report', 60);
+      const service = createService(cacheManager, { stampedeTTL: 0.2 });
+
+      const start = Date.now();
+      await expect(service.build()).resolves.toEqual({ n: 1 });
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(200);
+      expect(service.calls).toBe(1);
+    });
+  });
+
+  describe('stores without locks or tags', () => {
+    const createAdapter = (): ICacheAdapter =>
+      Object.assign(new MemoryAdapter(), {
+        acquireLock: undefined,
+        releaseLock: undefined,
+        tagKey: undefined,
+        invalidateTags: undefined,
+      });
+
+    it('computes without a stampede lock', async () => {
+      const cacheManager = new CacheManager(createAdapter(), { stores: [] });
+
+      class ReportService {
+        readonly cacheManager = cacheManager;
+
+        @TurboCache({ key: 'report', stampedeLock: true })
+        async build() {
+          return 'report';
+        }
+      }
+
+      await expect(new ReportService().build()).resolves.toBe('report');
+      await expect(cacheManager.get('report')).resolves.toBe('report');
+      await expect(cacheManager.acquireLock('report', 1)).rejects.toMatchObject({
+        code: CacheErrorCode.NOT_SUPPORTED,
+      });
+    });
+
+    it('rejects tagged writes and tag invalidation', async () => {
+      const cacheManager = new CacheManager(createAdapter(), { stores: [] });
+
+      await expect(cacheManager.set('user:1', 'a', { tags: ['users'] })).rejects.toMatchObject({
+        code: CacheErrorCode.NOT_SUPPORTED,
+      });
+      await expect(cacheManager.has('user:1')).resolves.toBe(false);
+      await expect(cacheManager.invalidateTags('users')).rejects.toMatchObject({
+        code: CacheErrorCode.NOT_SUPPORTED,
+      });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Registry } from 'prom-client';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { InstrumentedAdapter } from '../../src/metrics/instrumented-adapter';
+import { PrometheusMetrics } from '../../src/metrics/prometheus-metrics';
+import { runInternalCacheOperation } from '../../src/utils/cache-context';
+import { HealthProbe } from '../../src/utils/health-probe';
+
+describe('InstrumentedAdapter', () => {
+  let registry: Registry;
+  let adapter: InstrumentedAdapter;
+  let cache: CacheManager;
+
+  const count = async (name: string) => {
+    const metric = await registry.getSingleMetric(`turbocache_${name}_total`)!.get();
+    return metric.values.reduce((sum, { value }) => sum + value, 0);
+  };
+
+  beforeEach(() => {
+    registry = new Registry();
+    adapter = new InstrumentedAdapter(new MemoryAdapter(), new PrometheusMetrics({ registry }), {
+      store: 'default',
+      namespace: '',
+      tier: 'single',
+    });
+    cache = new CacheManager(adapter, { stores: [] } as CacheConfig);
+  });
+
+  it('counts application hits, misses and sets', async () => {
+    await cache.get('user:1');
+    await cache.set('user:1', 'a');
+    await cache.get('user:1');
+
+    expect(await count('hits')).toBe(1);
+    expect(await count('misses')).toBe(1);
+    expect(await count('sets')).toBe(1);
+  });
+
+  it('does not count health probes', async () => {
+    await expect(new HealthProbe(adapter).check()).resolves.toMatchObject({ status: 'up' });
+    await cache.health();
+
+    expect(await count('hits')).toBe(0);
+    expect(await count('sets')).toBe(0);
+    expect(await count('deletes')).toBe(0);
+  });
+
+  it('counts entries past their fresh TTL as misses', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      await cache.wrap('report', async () => 'v1', { ttl: 1, staleTTL: 60 });
+      jest.setSystemTime(2000);
+
+      await expect(cache.wrap('report', async () => 'v2', { ttl: 1 })).resolves.toBe('v1');
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(await count('hits')).toBe(0);
+    expect(await count('misses')).toBe(2);
+  });
+
+  it('does not count stampede lock polls', async () => {
+    const token = await cache.acquireLock('user:1', 5);
+    const pending = cache.wrap('user:1', async () => 'computed', { stampedeLock: true });
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await cache.set('user:1', 'filled');
+    await cache.releaseLock('user:1', token!);
+
+    await expect(pending).resolves.toBe('filled');
+    expect(await count('hits')).toBe(0);
+    expect(await count('misses')).toBe(1);
+  });
+
+  it('counts batch writes and tag invalidations', async () => {
+    await cache.mset(
+      new Map([
+        ['user:1', 'a'],
+        ['user:2', 'b'],
+      ]),
+    );
+    await cache.set('user:3', 'c', { tags: ['users'] });
+    await cache.invalidateTags('users');
+
+    expect(await count('sets')).toBe(3);
+    expect(await count('deletes')).toBe(1);
+  });
+
+  it('does not count internal batch writes and tag invalidations', async () => {
+    await adapter.tagKey!('user:1', ['users']);
+
+    await runInternalCacheOperation(async () => {
+      await adapter.mset(new Map([['user:1', 'a']]));
+      await adapter.invalidateTags!(['users']);
+    });
+
+    expect(await count('sets')).toBe(0);
+    expect(await count('deletes')).toBe(0);
+  });
+});
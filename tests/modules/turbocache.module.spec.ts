@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig } from '../../src/core/interfaces';
+import { CacheStoreRegistry } from '../../src/core/store-registry';
+import { InjectCache, TurboCacheModule } from '../../src/modules/turbocache.module';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+import { TurboCacheEvict } from '../../src/decorators/turbocache-evict.decorator';
+
+const config: CacheConfig = {
+  stores: [
+    { name: 'main', type: 'memory', primary: { type: 'memory' } },
+    { name: 'sessions', type: 'memory', primary: { type: 'memory' } },
+  ],
+};
+
+@Injectable()
+class SessionService {
+  calls = 0;
+
+  constructor(
+    @InjectCache() readonly cacheManager: CacheManager,
+    @InjectCache('sessions') readonly sessions: CacheManager,
+  ) {}
+
+  @TurboCache({ key: 'session:#{0}', store: 'sessions' })
+  async getSession(id: string) {
+    this.calls++;
+    return { id };
+  }
+
+  @TurboCacheEvict({ key: 'session:#{0}', store: 'sessions' })
+  async logout(_id: string) {
+    return true;
+  }
+}
+
+describe('TurboCacheModule', () => {
+  let moduleRef: TestingModule;
+  let service: SessionService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [TurboCacheModule.register(config)],
+      providers: [SessionService],
+    }).compile();
+    await moduleRef.init();
+    service = moduleRef.get(SessionService);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await moduleRef.close();
+  });
+
+  it('injects the default store and named stores', () => {
+    expect(service.cacheManager).toBe(moduleRef.get('CACHE_MANAGER'));
+    expect(service.sessions).toBe(moduleRef.get('CACHE_MANAGER:sessions'));
+    expect(service.sessions).not.toBe(service.cacheManager);
+  });
+
+  it('routes decorated methods to the named store', async () => {
+    await service.getSession('1');
+    await service.getSession('1');
+
+    expect(service.calls).toBe(1);
+    await expect(service.sessions.get('session:1')).resolves.toEqual({ id: '1' });
+    await expect(service.cacheManager.get('session:1')).resolves.toBeNull();
+
+    await service.logout('1');
+    await expect(service.sessions.get('session:1')).resolves.toBeNull();
+  });
+
+  it('exposes named stores registered asynchronously', async () => {
+    const asyncRef = await Test.createTestingModule({
+      imports: [TurboCacheModule.registerAsync({ useFactory: () => config, stores: ['sessions'] })],
+    }).compile();
+
+    expect(asyncRef.get('CACHE_MANAGER:sessions')).toBeInstanceOf(CacheManager);
+    await asyncRef.close();
+  });
+
+  it('connects store adapters on init and closes them on shutdown', async () => {
+    const connect = jest.spyOn(CacheStoreRegistry.prototype, 'connect');
+    const close = jest.spyOn(CacheStoreRegistry.prototype, 'close');
+    const lifecycleRef = await Test.createTestingModule({
+      imports: [TurboCacheModule.register(config)],
+    }).compile();
+
+    await lifecycleRef.init();
+    expect(connect).toHaveBeenCalledTimes(1);
+
+    const adapters = lifecycleRef.get<CacheStoreRegistry>('CACHE_REGISTRY').all();
+    const closed = adapters.map((store) => jest.spyOn(store.adapter, 'close'));
+    await lifecycleRef.close();
+
+    expect(close).toHaveBeenCalledTimes(1);
+    closed.forEach((spy) => expect(spy).toHaveBeenCalledTimes(1));
+  });
+});
@@ -0,0 +1,43 @@
+import { JsonSerializer } from '../../src/serializers/json-serializer';
+import { MsgpackSerializer } from '../../src/serializers/msgpack-serializer';
+
+describe('JsonSerializer', () => {
+  const serializer = new JsonSerializer();
+  const roundTrip = <T>(value: T): T => serializer.deserialize<T>(serializer.serialize(value));
+
+  it('keeps undefined array elements instead of leaving holes', () => {
+    const result = roundTrip([1, undefined, 3]);
+
+    expect(result).toHaveLength(3);
+    expect(1 in result).toBe(true);
+    expect(result).toStrictEqual([1, undefined, 3]);
+  });
+
+  it('keeps undefined elements in nested arrays', () => {
+    expect(roundTrip({ list: [undefined, [undefined]] })).toStrictEqual({
+      list: [undefined, [undefined]],
+    });
+  });
+
+  it('matches msgpack for arrays with undefined elements', () => {
+    const msgpack = new MsgpackSerializer();
+    const value = ['a', undefined, { n: 1 }];
+
+    expect(roundTrip(value)).toStrictEqual(msgpack.deserialize(msgpack.serialize(value)));
+  });
+
+  it('drops undefined properties like plain JSON', () => {
+    expect(roundTrip({ a: 1, b: undefined })).toStrictEqual({ a: 1 });
+  });
+
+  it('round-trips non-JSON types', () => {
+    const value = {
+      date: new Date(0),
+      map: new Map([['k', 1n]]),
+      set: new Set([NaN]),
+      buffer: Buffer.from('x'),
+    };
+
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+});
@@ -0,0 +1,44 @@
+import { MsgpackSerializer } from '../../src/serializers/msgpack-serializer';
+
+describe('MsgpackSerializer', () => {
+  const serializer = new MsgpackSerializer();
+  const roundTrip = <T>(value: T): T => serializer.deserialize<T>(serializer.serialize(value));
+
+  it('round-trips Date, Map, Set, BigInt, Buffer and undefined', () => {
+    const value = {
+      date: new Date('2024-01-02T03:04:05.678Z'),
+      map: new Map([['a', 1]]),
+      set: new Set(['x']),
+      big: BigInt('9007199254740993'),
+      buffer: Buffer.from('bytes'),
+      missing: undefined,
+    };
+
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it('round-trips invalid Dates', () => {
+    const result = roundTrip({ at: new Date(NaN) });
+
+    expect(result.at).toBeInstanceOf(Date);
+    expect(result.at.getTime()).toBeNaN();
+  });
+
+  it('keeps a "__proto__" key as an own property', () => {
+    const value = JSON.parse('{"__proto__": {"polluted": true}, "name": "Ada"}');
+
+    const result: any = roundTrip(value);
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(result.polluted).toBeUndefined();
+    expect(Object.keys(result)).toEqual(['__proto__', 'name']);
+    expect(result['__proto__']).toEqual({ polluted: true });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('rejects trailing bytes', () => {
+    const data = Buffer.concat([serializer.serialize(1), Buffer.from([0xc0])]);
+
+    expect(() => serializer.deserialize(data)).toThrow('Failed to deserialize MessagePack value');
+  });
+});
@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Context, ContextManager, ROOT_CONTEXT, context, trace } from '@opentelemetry/api';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, TracingConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+import { TurboCache } from '../../src/decorators/turbocache.decorator';
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  parent?: RecordedSpan;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * Context manager propagating the active span across awaits
+ */
+class AsyncContextManager implements ContextManager {
+  private readonly storage = new AsyncLocalStorage<Context>();
+
+  active(): Context {
+    return this.storage.getStore() ?? ROOT_CONTEXT;
+  }
+
+  with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+    ctx: Context,
+    fn: F,
+    thisArg?: ThisParameterType<F>,
+    ...args: A
+  ): ReturnType<F> {
+    return this.storage.run(ctx, () => fn.call(thisArg, ...args));
+  }
+
+  bind<T>(_context: Context, target: T): T {
+    return target;
+  }
+
+  enable(): this {
+    return this;
+  }
+
+  disable(): this {
+    return this;
+  }
+}
+
+/**
+ * Tracer recording every span it starts
+ */
+const spans: RecordedSpan[] = [];
+const recordingTracer = {
+  startActiveSpan(name: string, options: any, fn: (span: any) => unknown) {
+    const parent = (trace.getActiveSpan() as any)?.recorded;
+    const recorded: RecordedSpan = {
+      name,
+      attributes: { ...options.attributes },
+      parent,
+      ended: false,
+    };
+    spans.push(recorded);
+    const span = {
+      recorded,
+      setAttribute: (key: string, value: unknown) => (recorded.attributes[key] = value),
+      setStatus: (status: RecordedSpan['status']) => (recorded.status = status),
+      recordException: () => undefined,
+      end: () => (recorded.ended = true),
+      spanContext: () => ({ traceId: '1', spanId: String(spans.length), traceFlags: 1 }),
+      isRecording: () => true,
+    };
+    return context.with(trace.setSpan(context.active(), span as any), () => fn(span));
+  },
+};
+
+describe('CacheTracer', () => {
+  const span = (name: string) => spans.find((recorded) => recorded.name === name)!;
+  const createManager = (tracing?: TracingConfig, adapter = new MemoryAdapter()) =>
+    new CacheManager(adapter, { stores: [], namespace: 'app', tracing } as CacheConfig, 'main');
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncContextManager());
+    trace.setGlobalTracerProvider({ getTracer: () => recordingTracer as any });
+  });
+
+  afterAll(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  beforeEach(() => {
+    spans.length = 0;
+  });
+
+  it('records a span per operation with store, key and hit attributes', async () => {
+    const cache = createManager();
+
+    await cache.get('user:1');
+    await cache.set('user:1', 'a');
+    await cache.get('user:1');
+
+    expect(spans.map((recorded) => recorded.name)).toEqual(['cache.get', 'cache.set', 'cache.get']);
+    expect(spans[0].attributes).toEqual(
+      expect.objectContaining({
+        'cache.store': 'main',
+        'cache.namespace': 'app',
+        'cache.key': 'user:1',
+        'cache.hit': false,
+      }),
+    );
+    expect(spans[2].attributes['cache.hit']).toBe(true);
+    expect(spans.every((recorded) => recorded.ended)).toBe(true);
+  });
+
+  it('hashes keys with redactKeys: true and applies custom redaction', async () => {
+    await createManager({ redactKeys: true }).get('user:1');
+    await createManager({ redactKeys: (key) => key.split(':')[0] }).get('user:1');
+
+    expect(spans[0].attributes['cache.key']).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(spans[1].attributes['cache.key']).toBe('user');
+  });
+
+  it('records the key count for batch operations', async () => {
+    await createManager().mget(['user:1', 'user:2']);
+
+    expect(span('cache.mget').attributes['cache.key_count']).toBe(2);
+    expect(span('cache.mget').attributes).not.toHaveProperty('cache.key');
+  });
+
+  it('records the tier a value came from and its stored size', async () => {
+    const adapter = new MultiTierAdapter({ l1: new MemoryAdapter(), l2: new MemoryAdapter() });
+    const cache = new CacheManager(adapter, { stores: [], serializer: 'json' }, 'main');
+    await cache.set('user:1', 'Ada');
+
+    await cache.get('user:1');
+
+    const get = span('cache.get');
+    expect(get.attributes['cache.tier']).toBe('l1');
+    expect(get.attributes['cache.value_size']).toEqual(expect.any(Number));
+  });
+
+  it('marks failed operations with an error status', async () => {
+    const adapter = new MemoryAdapter();
+    jest.spyOn(adapter, 'get').mockRejectedValue(new Error('store down'));
+    const cache = new CacheManager(adapter, {
+      stores: [],
+      logging: { logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+    });
+
+    await expect(cache.get('user:1')).rejects.toThrow('store down');
+
+    expect(span('cache.get').status).toEqual({ code: 2, message: 'store down' });
+    expect(span('cache.get').ended).toBe(true);
+  });
+
+  it('nests cache spans under decorated method spans', async () => {
+    const cacheManager = createManager();
+
+    class UserService {
+      readonly cacheManager = cacheManager;
+
+      @TurboCache({ key: 'user:#{0}' })
+      async getUser(id: string) {
+        return { id };
+      }
+    }
+
+    await new UserService().getUser('1');
+
+    const method = span('TurboCache UserService.getUser');
+    expect(method.attributes).toEqual(
+      expect.objectContaining({ 'code.function': 'getUser', 'cache.key': 'user:1' }),
+    );
+    expect(span('cache.wrap').parent).toBe(method);
+  });
+
+  it('records no spans when tracing is disabled', async () => {
+    await createManager({ enabled: false }).get('user:1');
+
+    expect(spans).toHaveLength(0);
+  });
+
+  it('runs operations untraced without @opentelemetry/api', async () => {
+    await jest.isolateModulesAsync(async () => {
+      jest.doMock('@opentelemetry/api', () => {
+        throw new Error("Cannot find module '@opentelemetry/api'");
+      });
+      const { CacheManager: Isolated } = await import('../../src/core/cache-manager');
+      const cache = new Isolated(new MemoryAdapter(), { stores: [] });
+
+      await cache.set('user:1', 'a');
+      await expect(cache.get('user:1')).resolves.toBe('a');
+    });
+
+    expect(spans).toHaveLength(0);
+  });
+});
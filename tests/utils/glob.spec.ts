@@ -0,0 +1,32 @@
+import { globToRegExp } from '../../src/utils/glob';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['user:*', 'user:42', true],
+    ['user:?', 'user:42', false],
+    ['[a-c]x', 'bx', true],
+    ['[^a-c]x', 'bx', false],
+    ['[a-]x', '-x', true],
+    ['\\*', '*', true],
+    ['\\*', 'a', false],
+    ['[', '[', true],
+  ])('matches %s against %s: %s', (pattern, key, expected) => {
+    expect(globToRegExp(pattern).test(key)).toBe(expected);
+  });
+
+  it('swaps the bounds of reversed ranges like Redis', () => {
+    const regex = globToRegExp('[z-a]');
+
+    expect(regex.test('m')).toBe(true);
+    expect(regex.test('A')).toBe(false);
+  });
+
+  it('swaps reversed ranges with escaped bounds', () => {
+    const regex = globToRegExp('[\\]-\\-]');
+
+    expect(regex.test('-')).toBe(true);
+    expect(regex.test('[')).toBe(true);
+    expect(regex.test(']')).toBe(true);
+    expect(regex.test('^')).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { MultiTierAdapter } from '../../src/adapters/multi-tier-adapter';
+import { CacheManager } from '../../src/core/cache-manager';
+import { ICacheAdapter } from '../../src/core/interfaces';
+import { CacheStoreRegistry } from '../../src/core/store-registry';
+import {
+  TurboCacheHealthCheckError,
+  TurboCacheHealthIndicator,
+} from '../../src/modules/turbocache-health.indicator';
+import { HealthProbe, worstHealthStatus } from '../../src/utils/health-probe';
+
+describe('HealthProbe', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Memory adapter without ping(), so the probe falls back to a key round-trip
+  const withoutPing = (): ICacheAdapter => Object.assign(new MemoryAdapter(), { ping: undefined });
+
+  it('pings adapters that support it without writing a probe key', async () => {
+    const adapter = new MemoryAdapter({ max: 2 });
+    const ping = jest.spyOn(adapter, 'ping');
+    const set = jest.spyOn(adapter, 'set');
+
+    await expect(new HealthProbe(adapter).check()).resolves.toEqual({
+      status: 'up',
+      reachable: true,
+      latency: expect.any(Number),
+    });
+
+    expect(ping).toHaveBeenCalledTimes(1);
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it('leaves a full memory store untouched', async () => {
+    const cache = new CacheManager(new MemoryAdapter({ max: 2 }), { stores: [], namespace: 'app' });
+    const evicted = jest.fn();
+    cache.on('evict', evicted);
+    await cache.set('user:1', 'a');
+    await cache.set('user:2', 'b');
+
+    await cache.health();
+
+    expect(evicted).not.toHaveBeenCalled();
+    await expect(cache.keys()).resolves.toEqual(expect.arrayContaining(['user:1', 'user:2']));
+  });
+
+  it('round-trips a probe key when the adapter has no ping', async () => {
+    const adapter = withoutPing();
+    const set = jest.spyOn(adapter, 'set');
+
+    await expect(new HealthProbe(adapter).check()).resolves.toEqual(
+      expect.objectContaining({ status: 'up', reachable: true }),
+    );
+
+    expect(set).toHaveBeenCalledTimes(1);
+    await expect(adapter.keys()).resolves.toEqual([]);
+  });
+
+  it('reports a failed probe and keeps the last error after recovery', async () => {
+    const adapter = new MemoryAdapter();
+    jest.spyOn(adapter, 'ping').mockRejectedValueOnce(new Error('connection refused'));
+    const probe = new HealthProbe(adapter);
+
+    await expect(probe.check()).resolves.toEqual(
+      expect.objectContaining({
+        status: 'down',
+        reachable: false,
+        lastError: 'connection refused',
+      }),
+    );
+    await expect(probe.check()).resolves.toEqual(
+      expect.objectContaining({
+        status: 'up',
+        lastError: 'connection refused',
+        lastErrorAt: expect.any(Number),
+      }),
+    );
+  });
+
+  it('times out probes that never settle', async () => {
+    const adapter = new MemoryAdapter();
+    jest.spyOn(adapter, 'ping').mockReturnValue(new Promise(() => undefined));
+
+    await expect(new HealthProbe(adapter, 20).check()).resolves.toEqual(
+      expect.objectContaining({ status: 'down', lastError: 'Health probe timed out after 20ms' }),
+    );
+  });
+
+  it('reports a multi-tier store with L2 down as degraded', async () => {
+    const l2 = new MemoryAdapter();
+    jest.spyOn(l2, 'ping').mockRejectedValue(new Error('connection refused'));
+    const adapter = new MultiTierAdapter({ l1: new MemoryAdapter(), l2 });
+
+    const health = await adapter.health();
+
+    expect(health).toEqual(
+      expect.objectContaining({
+        status: 'degraded',
+        reachable: true,
+        lastError: 'connection refused',
+      }),
+    );
+    expect(health.tiers!.l1.status).toBe('up');
+    expect(health.tiers!.l2.status).toBe('down');
+  });
+
+  it('picks the worst status', () => {
+    expect(worstHealthStatus(['up', 'up'])).toBe('up');
+    expect(worstHealthStatus(['up', 'degraded'])).toBe('degraded');
+    expect(worstHealthStatus(['degraded', 'down'])).toBe('down');
+  });
+});
+
+describe('TurboCacheHealthIndicator', () => {
+  const registryWith = (adapters: Record<string, ICacheAdapter>) => {
+    const registry = new CacheStoreRegistry();
+    for (const [name, adapter] of Object.entries(adapters)) {
+      registry.register(name, adapter, new CacheManager(adapter, { stores: [] }, name));
+    }
+    return registry;
+  };
+  const failingL2 = () => {
+    const l2 = new MemoryAdapter();
+    jest.spyOn(l2, 'ping').mockRejectedValue(new Error('connection refused'));
+    return new MultiTierAdapter({ l1: new MemoryAdapter(), l2 });
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports healthy stores as up', async () => {
+    const indicator = new TurboCacheHealthIndicator(registryWith({ main: new MemoryAdapter() }));
+
+    await expect(indicator.isHealthy('cache')).resolves.toEqual({
+      cache: expect.objectContaining({ status: 'up', cacheStatus: 'up' }),
+    });
+  });
+
+  it('accepts degraded stores unless allowDegraded is false', async () => {
+    const indicator = new TurboCacheHealthIndicator(registryWith({ main: failingL2() }));
+
+    await expect(indicator.isHealthy('cache')).resolves.toEqual({
+      cache: expect.objectContaining({ status: 'up', cacheStatus: 'degraded' }),
+    });
+    await expect(indicator.isHealthy('cache', { allowDegraded: false })).rejects.toBeInstanceOf(
+      TurboCacheHealthCheckError,
+    );
+  });
+
+  it('fails when a store is down or unknown', async () => {
+    const down = new MemoryAdapter();
+    jest.spyOn(down, 'ping').mockRejectedValue(new Error('connection refused'));
+    const indicator = new TurboCacheHealthIndicator(
+      registryWith({ main: new MemoryAdapter(), sessions: down }),
+    );
+
+    const error = await indicator.isHealthy('cache').catch((err) => err);
+    expect(error).toBeInstanceOf(TurboCacheHealthCheckError);
+    expect(error.isHealthCheckError).toBe(true);
+    expect(error.causes.cache.cacheStatus).toBe('down');
+
+    await expect(indicator.isHealthy('cache', { stores: ['main'] })).resolves.toBeDefined();
+    await expect(indicator.isHealthy('cache', { stores: ['users'] })).rejects.toBeInstanceOf(
+      TurboCacheHealthCheckError,
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheManager } from '../../src/core/cache-manager';
+import { CacheConfig, ICacheAdapter, LoggingConfig } from '../../src/core/interfaces';
+import { MemoryAdapter } from '../../src/adapters/memory-adapter';
+import { FsAdapter } from '../../src/adapters/fs-adapter';
+import { RedisAdapter } from '../../src/adapters/redis-adapter';
+import { CacheLogger } from '../../src/utils/logger';
+
+const SECRET_KEY = 'user:alice@example.com';
+
+describe('CacheLogger', () => {
+  let lines: string[];
+  let sink: LoggingConfig['logger'];
+
+  beforeEach(() => {
+    lines = [];
+    const capture = (...args: unknown[]) => {
+      lines.push(args.map(String).join(' '));
+    };
+    sink = { log: capture, warn: capture, error: capture, debug: capture };
+  });
+
+  const createManager = (adapter: ICacheAdapter, format: 'json' | 'text') =>
+    new CacheManager(adapter, {
+      stores: [],
+      logging: { logger: sink, format, level: 'debug' },
+    } as CacheConfig);
+
+  it('masks key fields unless includeKeys is set', () => {
+    new CacheLogger({ logger: sink }).error('Failed', { key: SECRET_KEY, keys: [SECRET_KEY] });
+    new CacheLogger({ logger: sink, includeKeys: true }).error('Failed', { key: SECRET_KEY });
+
+    expect(lines[0]).toBe('Failed key=[redacted] keys=[redacted]');
+    expect(lines[1]).toContain(SECRET_KEY);
+  });
+
+  describe.each(['text', 'json'] as const)('%s format', (format) => {
+    it('keeps keys out of every line when a value is too large for memory', async () => {
+      const cache = createManager(new MemoryAdapter({ maxSize: 10 }), format);
+
+      await cache.wrap(SECRET_KEY, async () => 'x'.repeat(100));
+
+      expect(lines.length).toBeGreaterThan(0);
+      lines.forEach((line) => expect(line).not.toContain(SECRET_KEY));
+    });
+
+    it('keeps keys out of every line when a value is too large for disk', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'turbocache-'));
+      const adapter = new FsAdapter({ directory, maxSize: 10, sweepInterval: 0 });
+      try {
+        await createManager(adapter, format).wrap(SECRET_KEY, async () => 'x'.repeat(100));
+      } finally {
+        await adapter.close();
+        rmSync(directory, { recursive: true, force: true });
+      }
+
+      expect(lines.length).toBeGreaterThan(0);
+      lines.forEach((line) => expect(line).not.toContain(SECRET_KEY));
+    });
+
+    it('keeps keys out of every line when adapter operations fail', async () => {
+      const client = {
+        getBuffer: jest.fn().mockResolvedValue(null),
+        set: jest.fn().mockRejectedValue(new Error('READONLY')),
+      };
+      const cache = createManager(new RedisAdapter({ client }), format);
+
+      await expect(cache.wrap(SECRET_KEY, async () => 'v')).resolves.toBe('v');
+
+      expect(lines.length).toBeGreaterThan(0);
+      lines.forEach((line) => expect(line).not.toContain(SECRET_KEY));
+    });
+  });
+});
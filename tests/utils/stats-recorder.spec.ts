@@ -0,0 +1,91 @@
+import { CacheStatsRecorder } from '../../src/utils/stats-recorder';
+
+describe('CacheStatsRecorder', () => {
+  it('breaks hit ratios down by key prefix and method', () => {
+    const recorder = new CacheStatsRecorder();
+
+    recorder.recordLookup('user:1', true, 'UserService.getUser');
+    recorder.recordLookup('user:2', false, 'UserService.getUser');
+    recorder.recordLookup('post:1', true);
+    recorder.recordLookup('plain', false);
+
+    const window = recorder.snapshot();
+    expect(window.lookups).toEqual({ hits: 2, misses: 2, hitRatio: 0.5 });
+    expect(window.byPrefix).toEqual({
+      user: { hits: 1, misses: 1, hitRatio: 0.5 },
+      post: { hits: 1, misses: 0, hitRatio: 1 },
+      plain: { hits: 0, misses: 1, hitRatio: 0 },
+    });
+    expect(window.byMethod).toEqual({
+      'UserService.getUser': { hits: 1, misses: 1, hitRatio: 0.5 },
+    });
+  });
+
+  it('uses the configured prefix separator', () => {
+    const recorder = new CacheStatsRecorder({ prefixSeparator: '/' });
+
+    recorder.recordLookup('users/1:a', true);
+
+    expect(Object.keys(recorder.snapshot().byPrefix)).toEqual(['users']);
+  });
+
+  it('groups prefixes beyond maxGroups as (other)', () => {
+    const recorder = new CacheStatsRecorder({ maxGroups: 2 });
+
+    ['a:1', 'b:1', 'c:1', 'd:1', 'a:2'].forEach((key) => recorder.recordLookup(key, true));
+
+    expect(recorder.snapshot().byPrefix).toEqual({
+      a: { hits: 2, misses: 0, hitRatio: 1 },
+      b: { hits: 1, misses: 0, hitRatio: 1 },
+      '(other)': { hits: 2, misses: 0, hitRatio: 1 },
+    });
+  });
+
+  it('reports latency percentiles per operation', () => {
+    const recorder = new CacheStatsRecorder();
+
+    for (let ms = 1; ms <= 100; ms++) {
+      recorder.recordLatency('get', ms);
+    }
+    recorder.recordLatency('set', 4);
+
+    const { latency } = recorder.snapshot();
+    expect(latency.get).toEqual({ count: 100, mean: 50.5, p50: 50, p95: 95, p99: 99, max: 100 });
+    expect(latency.set).toEqual(expect.objectContaining({ count: 1, p99: 4 }));
+  });
+
+  it('keeps a bounded sample while counting every latency', () => {
+    const recorder = new CacheStatsRecorder({ latencySamples: 10 });
+
+    for (let i = 0; i < 1000; i++) {
+      recorder.recordLatency('get', 5);
+    }
+
+    expect(recorder.snapshot().latency.get).toEqual(
+      expect.objectContaining({ count: 1000, p50: 5, max: 5 }),
+    );
+    expect((recorder as any).latency.get('get').samples).toHaveLength(10);
+  });
+
+  it('starts a new window on reset', () => {
+    jest.useFakeTimers({ now: 1_000 });
+    try {
+      const recorder = new CacheStatsRecorder();
+      recorder.recordLookup('user:1', true);
+      recorder.recordLatency('get', 1);
+
+      jest.setSystemTime(5_000);
+      recorder.reset();
+
+      expect(recorder.snapshot()).toEqual({
+        since: 5_000,
+        lookups: { hits: 0, misses: 0, hitRatio: 0 },
+        byPrefix: {},
+        byMethod: {},
+        latency: {},
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});